@@ -165,3 +165,4 @@ export class AuthManager {
 }
 
 export const authManager = new AuthManager();
+googleDriveService.setAuthCheck(() => authManager.isAuthenticated());
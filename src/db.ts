@@ -1,7 +1,8 @@
 import sqlite3 from 'sqlite3';
 import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
 import fs from 'fs';
-import { IngestionRun, Document, DocumentVersion, ChangeRecord } from './types';
+import { IngestionRun, IngestionRunItem, Document, DocumentUpdate, DocumentVersion, ChangeRecord, SourceType, SyncCursor, MonitoredFolder, DriveWatchChannel } from './types';
 
 const dataDir = path.join(process.cwd(), 'data');
 if (!fs.existsSync(dataDir)) {
@@ -10,12 +11,74 @@ if (!fs.existsSync(dataDir)) {
 
 const dbPath = path.join(dataDir, 'trainloop.db');
 
+function toMonitoredFolder(row: any): MonitoredFolder {
+  return {
+    ...row,
+    notificationEmails: JSON.parse(row.notificationEmails || '[]'),
+    fileRules: JSON.parse(row.fileRules || '{}'),
+    normalization: row.normalization ? JSON.parse(row.normalization) : null,
+    scheduleEnabled: row.scheduleEnabled === 1,
+  };
+}
+
+function openConnection(): sqlite3.Database {
+  const connection = new sqlite3.Database(dbPath);
+  // Writes wait for a transaction open on the other connection rather than failing
+  connection.configure('busyTimeout', 30000);
+  return connection;
+}
+
+function exec(connection: sqlite3.Database, sql: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    connection.run(sql, (err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
 export class Database {
-  private db: sqlite3.Database;
+  private connection: sqlite3.Database;
+  // Transactions run on a connection of their own, so statements issued elsewhere while one is
+  // open (another folder's run, an explanation, an API write) neither join it nor roll back with it
+  private transactionConnection: sqlite3.Database | null = null;
+  private transactionScope = new AsyncLocalStorage<sqlite3.Database>();
+  // Tail of the queue of transactions waiting for the transaction connection
+  private transactionQueue: Promise<void> = Promise.resolve();
 
   constructor() {
-    this.db = new sqlite3.Database(dbPath);
-    this.db.configure('busyTimeout', 5000);
+    this.connection = openConnection();
+  }
+
+  // Statements made by a transaction's work go to its connection; all others to the shared one
+  private get db(): sqlite3.Database {
+    return this.transactionScope.getStore() ?? this.connection;
+  }
+
+  // Runs `work` in a transaction, rolled back if it throws. Transactions are queued; one started
+  // inside another's work is part of it.
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) return work();
+
+    const previous = this.transactionQueue;
+    let release!: () => void;
+    this.transactionQueue = new Promise(resolve => (release = resolve));
+    await previous;
+
+    try {
+      const connection = this.transactionConnection ??= openConnection();
+      await exec(connection, 'BEGIN IMMEDIATE');
+      try {
+        const result = await this.transactionScope.run(connection, work);
+        await exec(connection, 'COMMIT');
+        return result;
+      } catch (error) {
+        await exec(connection, 'ROLLBACK').catch(() => {});
+        throw error;
+      }
+    } finally {
+      release();
+    }
   }
 
   async initialize(): Promise<void> {
@@ -30,19 +93,48 @@ export class Database {
     await run(`
       CREATE TABLE IF NOT EXISTS ingestion_runs (
         id TEXT PRIMARY KEY,
+        folderId TEXT,
         createdAt TEXT NOT NULL,
         status TEXT NOT NULL,
         documentsProcessed INTEGER DEFAULT 0,
         changesDetected INTEGER DEFAULT 0,
+        syncMode TEXT,
+        filesFetched INTEGER DEFAULT 0,
+        filesSkipped INTEGER DEFAULT 0,
         error TEXT
       )
     `);
+    await run(`ALTER TABLE ingestion_runs ADD COLUMN syncMode TEXT`).catch(() => {});
+    await run(`ALTER TABLE ingestion_runs ADD COLUMN folderId TEXT`).catch(() => {});
+    await run(`ALTER TABLE ingestion_runs ADD COLUMN filesFetched INTEGER DEFAULT 0`).catch(() => {});
+    await run(`ALTER TABLE ingestion_runs ADD COLUMN filesSkipped INTEGER DEFAULT 0`).catch(() => {});
+
+    // Per-file outcomes of each run
+    await run(`
+      CREATE TABLE IF NOT EXISTS ingestion_run_items (
+        id TEXT PRIMARY KEY,
+        runId TEXT NOT NULL,
+        sourceId TEXT NOT NULL,
+        fileName TEXT NOT NULL,
+        documentId TEXT,
+        outcome TEXT NOT NULL,
+        reason TEXT,
+        createdAt TEXT NOT NULL
+      )
+    `);
+    await run(`CREATE INDEX IF NOT EXISTS idx_ingestion_run_items_run ON ingestion_run_items (runId)`);
 
     // Documents table
     await run(`
       CREATE TABLE IF NOT EXISTS documents (
         id TEXT PRIMARY KEY,
-        googleDriveId TEXT UNIQUE NOT NULL,
+        folderId TEXT,
+        sourceId TEXT NOT NULL,
+        sourceType TEXT NOT NULL DEFAULT 'google_drive',
+        sourceRoot TEXT,
+        sourceRevision TEXT,
+        sourceVersion TEXT,
+        folderPath TEXT,
         fileName TEXT NOT NULL,
         mimeType TEXT NOT NULL,
         lastModified TEXT NOT NULL,
@@ -50,7 +142,10 @@ export class Database {
         currentHash TEXT NOT NULL,
         createdAt TEXT NOT NULL,
         isDeleted INTEGER DEFAULT 0,
-        deletedAt TEXT
+        deletedAt TEXT,
+        movedOutOfScope INTEGER DEFAULT 0,
+        owners TEXT,
+        metadataSnapshot TEXT
       )
     `);
 
@@ -58,6 +153,20 @@ export class Database {
     await run(`ALTER TABLE documents ADD COLUMN isDeleted INTEGER DEFAULT 0`).catch(() => {});
     await run(`ALTER TABLE documents ADD COLUMN deletedAt TEXT`).catch(() => {});
 
+    // Documents used to be Drive-only: googleDriveId becomes a generic source ID plus a source type
+    await run(`ALTER TABLE documents RENAME COLUMN googleDriveId TO sourceId`).catch(() => {});
+    await run(`ALTER TABLE documents ADD COLUMN sourceType TEXT NOT NULL DEFAULT 'google_drive'`).catch(() => {});
+    await run(`ALTER TABLE documents ADD COLUMN sourceRoot TEXT`).catch(() => {});
+    await run(`CREATE UNIQUE INDEX IF NOT EXISTS idx_documents_source ON documents (sourceType, sourceId)`);
+    await run(`ALTER TABLE documents ADD COLUMN sourceRevision TEXT`).catch(() => {});
+    await run(`ALTER TABLE documents ADD COLUMN folderPath TEXT`).catch(() => {});
+    await run(`ALTER TABLE documents ADD COLUMN movedOutOfScope INTEGER DEFAULT 0`).catch(() => {});
+    await run(`ALTER TABLE documents ADD COLUMN owners TEXT`).catch(() => {});
+    await run(`ALTER TABLE documents ADD COLUMN metadataSnapshot TEXT`).catch(() => {});
+    await run(`ALTER TABLE documents ADD COLUMN folderId TEXT`).catch(() => {});
+    await run(`ALTER TABLE documents ADD COLUMN sourceVersion TEXT`).catch(() => {});
+    await run(`CREATE INDEX IF NOT EXISTS idx_documents_folder ON documents (folderId)`);
+
     // Document versions table
     await run(`
       CREATE TABLE IF NOT EXISTS document_versions (
@@ -66,9 +175,17 @@ export class Database {
         hash TEXT NOT NULL,
         content TEXT NOT NULL,
         createdAt TEXT NOT NULL,
+        historical INTEGER DEFAULT 0,
+        modifiedBy TEXT,
+        modifiedByEmail TEXT,
+        normalizations TEXT,
         FOREIGN KEY (documentId) REFERENCES documents(id)
       )
     `);
+    await run(`ALTER TABLE document_versions ADD COLUMN historical INTEGER DEFAULT 0`).catch(() => {});
+    await run(`ALTER TABLE document_versions ADD COLUMN modifiedBy TEXT`).catch(() => {});
+    await run(`ALTER TABLE document_versions ADD COLUMN modifiedByEmail TEXT`).catch(() => {});
+    await run(`ALTER TABLE document_versions ADD COLUMN normalizations TEXT`).catch(() => {});
 
     // Change records table (documentId can be NULL for system-level records like baseline)
     await run(`
@@ -121,6 +238,61 @@ export class Database {
         updatedAt TEXT NOT NULL
       )
     `);
+
+    // Monitored folders, each with its own schedule
+    await run(`
+      CREATE TABLE IF NOT EXISTS monitored_folders (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        sourceType TEXT NOT NULL,
+        rootId TEXT NOT NULL,
+        owner TEXT,
+        notificationEmails TEXT NOT NULL DEFAULT '[]',
+        notifyMinSeverity TEXT NOT NULL DEFAULT 'medium',
+        scheduleEnabled INTEGER DEFAULT 0,
+        intervalMinutes INTEGER DEFAULT 60,
+        fileRules TEXT NOT NULL DEFAULT '{}',
+        normalization TEXT,
+        lastRun TEXT,
+        nextRun TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        UNIQUE (sourceType, rootId)
+      )
+    `);
+    await run(`ALTER TABLE monitored_folders ADD COLUMN fileRules TEXT NOT NULL DEFAULT '{}'`).catch(() => {});
+    await run(`ALTER TABLE monitored_folders ADD COLUMN normalization TEXT`).catch(() => {});
+
+    // Drive push notification channels. Channels used to be per folder; those rows are dropped
+    // and Drive stops the channels when they expire.
+    const channelColumns = await new Promise<any[]>((resolve, reject) => {
+      this.db.all(`PRAGMA table_info(drive_watch_channels)`, (err, rows) => (err ? reject(err) : resolve(rows || [])));
+    });
+    if (channelColumns.some(column => column.name === 'folderId')) {
+      await run(`DROP TABLE drive_watch_channels`);
+    }
+    await run(`
+      CREATE TABLE IF NOT EXISTS drive_watch_channels (
+        id TEXT PRIMARY KEY,
+        resourceId TEXT NOT NULL,
+        token TEXT NOT NULL,
+        pageToken TEXT NOT NULL,
+        expiration TEXT NOT NULL,
+        createdAt TEXT NOT NULL
+      )
+    `);
+
+    // Change cursors for incremental sync, one per source root
+    await run(`
+      CREATE TABLE IF NOT EXISTS sync_cursors (
+        sourceType TEXT NOT NULL,
+        rootId TEXT NOT NULL,
+        cursor TEXT NOT NULL,
+        lastFullSyncAt TEXT,
+        updatedAt TEXT NOT NULL,
+        PRIMARY KEY (sourceType, rootId)
+      )
+    `);
   }
 
   async saveAccessToken(accessToken: string, expiryTime: number, refreshToken?: string): Promise<void> {
@@ -151,11 +323,11 @@ export class Database {
 
   async createIngestionRun(run: IngestionRun): Promise<void> {
     const stmt = this.db.prepare(
-      `INSERT INTO ingestion_runs (id, createdAt, status, documentsProcessed, changesDetected, error)
-       VALUES (?, ?, ?, ?, ?, ?)`
+      `INSERT INTO ingestion_runs (id, folderId, createdAt, status, documentsProcessed, changesDetected, error)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
     );
     return new Promise((resolve, reject) => {
-      stmt.run(run.id, run.createdAt, run.status, run.documentsProcessed, run.changesDetected, run.error, function(err: Error | null) {
+      stmt.run(run.id, run.folderId || null, run.createdAt, run.status, run.documentsProcessed, run.changesDetected, run.error, function(err: Error | null) {
         if (err) reject(err);
         else resolve();
       });
@@ -180,9 +352,57 @@ export class Database {
     });
   }
 
-  async getIngestionRuns(): Promise<IngestionRun[]> {
+  // Runs still pending or in progress at startup were cut off by a crash or restart
+  async markUnfinishedRunsInterrupted(): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE ingestion_runs SET status = 'interrupted', error = COALESCE(error, 'Interrupted by a server restart')
+         WHERE status IN ('pending', 'in_progress')`,
+        function(err: Error | null) {
+          if (err) reject(err);
+          else resolve(this.changes);
+        }
+      );
+    });
+  }
+
+  async getIngestionRun(id: string): Promise<IngestionRun | null> {
     return new Promise((resolve, reject) => {
-      this.db.all('SELECT * FROM ingestion_runs ORDER BY createdAt DESC', (err, rows) => {
+      this.db.get('SELECT * FROM ingestion_runs WHERE id = ?', [id], (err, row) => {
+        if (err) reject(err);
+        else resolve((row as IngestionRun) || null);
+      });
+    });
+  }
+
+  async createIngestionRunItem(item: IngestionRunItem): Promise<void> {
+    const stmt = this.db.prepare(
+      `INSERT INTO ingestion_run_items (id, runId, sourceId, fileName, documentId, outcome, reason, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    return new Promise((resolve, reject) => {
+      stmt.run(item.id, item.runId, item.sourceId, item.fileName, item.documentId || null, item.outcome, item.reason || null, item.createdAt, function(err: Error | null) {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  async getIngestionRunItems(runId: string): Promise<IngestionRunItem[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM ingestion_run_items WHERE runId = ? ORDER BY createdAt, rowid', [runId], (err, rows) => {
+        if (err) reject(err);
+        else resolve((rows as IngestionRunItem[]) || []);
+      });
+    });
+  }
+
+  async getIngestionRuns(folderId?: string): Promise<IngestionRun[]> {
+    const sql = folderId
+      ? 'SELECT * FROM ingestion_runs WHERE folderId = ? ORDER BY createdAt DESC'
+      : 'SELECT * FROM ingestion_runs ORDER BY createdAt DESC';
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, folderId ? [folderId] : [], (err, rows) => {
         if (err) reject(err);
         else resolve((rows as any[]) || []);
       });
@@ -191,25 +411,25 @@ export class Database {
 
   async createDocument(doc: Document): Promise<void> {
     const stmt = this.db.prepare(
-      `INSERT INTO documents (id, googleDriveId, fileName, mimeType, lastModified, currentVersionId, currentHash, createdAt)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      `INSERT INTO documents (id, folderId, sourceId, sourceType, sourceRoot, sourceRevision, sourceVersion, folderPath, fileName, mimeType, lastModified, currentVersionId, currentHash, createdAt, owners, metadataSnapshot)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     );
     return new Promise((resolve, reject) => {
-      stmt.run(doc.id, doc.googleDriveId, doc.fileName, doc.mimeType, doc.lastModified, doc.currentVersionId, doc.currentHash, new Date().toISOString(), function(err: Error | null) {
+      stmt.run(doc.id, doc.folderId || null, doc.sourceId, doc.sourceType, doc.sourceRoot || null, doc.sourceRevision || null, doc.sourceVersion || null, doc.folderPath ?? null, doc.fileName, doc.mimeType, doc.lastModified, doc.currentVersionId, doc.currentHash, new Date().toISOString(), doc.owners || null, doc.metadataSnapshot || null, function(err: Error | null) {
         if (err) reject(err);
         else resolve();
       });
     });
   }
 
-  async updateDocument(id: string, updates: Partial<Document>): Promise<void> {
+  async updateDocument(id: string, updates: DocumentUpdate): Promise<void> {
     const fields = Object.keys(updates)
       .filter(k => k !== 'id')
       .map(k => `${k} = ?`)
       .join(', ');
     const values = Object.keys(updates)
       .filter(k => k !== 'id')
-      .map(k => updates[k as keyof Document]);
+      .map(k => updates[k as keyof DocumentUpdate]);
 
     const stmt = this.db.prepare(`UPDATE documents SET ${fields} WHERE id = ?`);
     return new Promise((resolve, reject) => {
@@ -220,9 +440,9 @@ export class Database {
     });
   }
 
-  async getDocumentByGoogleDriveId(googleDriveId: string): Promise<Document | null> {
+  async getDocumentBySourceId(sourceType: SourceType, sourceId: string): Promise<Document | null> {
     return new Promise((resolve, reject) => {
-      this.db.get('SELECT * FROM documents WHERE googleDriveId = ?', [googleDriveId], (err, row) => {
+      this.db.get('SELECT * FROM documents WHERE sourceType = ? AND sourceId = ?', [sourceType, sourceId], (err, row) => {
         if (err) reject(err);
         else resolve((row as Document) || null);
       });
@@ -256,6 +476,57 @@ export class Database {
     });
   }
 
+  async getDocumentsForFolder(folderId: string): Promise<Document[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM documents WHERE folderId = ?', [folderId], (err, rows) => {
+        if (err) reject(err);
+        else resolve((rows as any[]) || []);
+      });
+    });
+  }
+
+  async getActiveDocumentsForFolder(folderId: string): Promise<Document[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        'SELECT * FROM documents WHERE folderId = ? AND (isDeleted = 0 OR isDeleted IS NULL)',
+        [folderId],
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve((rows as any[]) || []);
+        }
+      );
+    });
+  }
+
+  async getDocumentCountForFolder(folderId: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        'SELECT COUNT(*) as count FROM documents WHERE folderId = ?',
+        [folderId],
+        (err, row: any) => {
+          if (err) reject(err);
+          else resolve(row?.count || 0);
+        }
+      );
+    });
+  }
+
+  // Documents ingested before folders were tracked (or whose folder was deleted) join the folder
+  // for their root. Those from before roots were tracked join the first folder of their source.
+  async adoptDocumentsForFolder(folder: MonitoredFolder): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `UPDATE documents SET folderId = ?, sourceRoot = COALESCE(sourceRoot, ?)
+         WHERE folderId IS NULL AND sourceType = ? AND (sourceRoot = ? OR sourceRoot IS NULL)`,
+        [folder.id, folder.rootId, folder.sourceType, folder.rootId],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
   async getActiveDocumentCount(): Promise<number> {
     return new Promise((resolve, reject) => {
       this.db.get('SELECT COUNT(*) as count FROM documents WHERE isDeleted = 0 OR isDeleted IS NULL', (err, row: any) => {
@@ -276,11 +547,11 @@ export class Database {
 
   async createDocumentVersion(version: DocumentVersion): Promise<void> {
     const stmt = this.db.prepare(
-      `INSERT INTO document_versions (id, documentId, hash, content, createdAt)
-       VALUES (?, ?, ?, ?, ?)`
+      `INSERT INTO document_versions (id, documentId, hash, content, createdAt, historical, modifiedBy, modifiedByEmail, normalizations)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
     );
     return new Promise((resolve, reject) => {
-      stmt.run(version.id, version.documentId, version.hash, version.content, version.createdAt, function(err: Error | null) {
+      stmt.run(version.id, version.documentId, version.hash, version.content, version.createdAt, version.historical ? 1 : 0, version.modifiedBy || null, version.modifiedByEmail || null, version.normalizations || null, function(err: Error | null) {
         if (err) reject(err);
         else resolve();
       });
@@ -343,6 +614,23 @@ export class Database {
     });
   }
 
+  // Matches the author's name or email, case-insensitively. Records from before authors were
+  // stored still match on their commit author.
+  async getChangeRecordsByAuthor(author: string): Promise<ChangeRecord[]> {
+    const columns = ['$.modifiedBy.name', '$.modifiedBy.email', '$.commit.author', '$.commit.authorEmail']
+      .map(path => `lower(json_extract(reason, '${path}')) = lower(?)`);
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT * FROM change_records WHERE json_valid(reason) AND (${columns.join(' OR ')}) ORDER BY detectedAt DESC`,
+        columns.map(() => author),
+        (err, rows) => {
+          if (err) reject(err);
+          else resolve((rows as any[]) || []);
+        }
+      );
+    });
+  }
+
   async updateChangeRecordExplanation(
     id: string,
     explanation: {
@@ -436,6 +724,177 @@ export class Database {
     });
   }
 
+  async createMonitoredFolder(folder: MonitoredFolder): Promise<void> {
+    const stmt = this.db.prepare(
+      `INSERT INTO monitored_folders (id, name, sourceType, rootId, owner, notificationEmails, notifyMinSeverity, scheduleEnabled, intervalMinutes, fileRules, normalization, lastRun, nextRun, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    return new Promise((resolve, reject) => {
+      stmt.run(
+        folder.id,
+        folder.name,
+        folder.sourceType,
+        folder.rootId,
+        folder.owner,
+        JSON.stringify(folder.notificationEmails),
+        folder.notifyMinSeverity,
+        folder.scheduleEnabled ? 1 : 0,
+        folder.intervalMinutes,
+        JSON.stringify(folder.fileRules),
+        folder.normalization ? JSON.stringify(folder.normalization) : null,
+        folder.lastRun,
+        folder.nextRun,
+        folder.createdAt,
+        folder.updatedAt,
+        function(err: Error | null) {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async updateMonitoredFolder(id: string, updates: Partial<MonitoredFolder>): Promise<void> {
+    const row: Record<string, unknown> = { ...updates, updatedAt: new Date().toISOString() };
+    delete row.id;
+    if (updates.notificationEmails) row.notificationEmails = JSON.stringify(updates.notificationEmails);
+    if (updates.fileRules) row.fileRules = JSON.stringify(updates.fileRules);
+    if (updates.normalization !== undefined) row.normalization = updates.normalization ? JSON.stringify(updates.normalization) : null;
+    if (updates.scheduleEnabled !== undefined) row.scheduleEnabled = updates.scheduleEnabled ? 1 : 0;
+
+    const fields = Object.keys(row).map(k => `${k} = ?`).join(', ');
+    const stmt = this.db.prepare(`UPDATE monitored_folders SET ${fields} WHERE id = ?`);
+    return new Promise((resolve, reject) => {
+      stmt.run(...Object.values(row), id, function(err: Error | null) {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  // The folder's documents keep their history; they are adopted again if the folder is re-added
+  async deleteMonitoredFolder(id: string): Promise<void> {
+    const run = (sql: string) => new Promise<void>((resolve, reject) => {
+      this.db.run(sql, [id], (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+    await run('UPDATE documents SET folderId = NULL WHERE folderId = ?');
+    await run('DELETE FROM monitored_folders WHERE id = ?');
+  }
+
+  async getMonitoredFolder(id: string): Promise<MonitoredFolder | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM monitored_folders WHERE id = ?', [id], (err, row) => {
+        if (err) reject(err);
+        else resolve(row ? toMonitoredFolder(row) : null);
+      });
+    });
+  }
+
+  async getMonitoredFolderByRoot(sourceType: SourceType, rootId: string): Promise<MonitoredFolder | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        'SELECT * FROM monitored_folders WHERE sourceType = ? AND rootId = ?',
+        [sourceType, rootId],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve(row ? toMonitoredFolder(row) : null);
+        }
+      );
+    });
+  }
+
+  async getMonitoredFolders(): Promise<MonitoredFolder[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM monitored_folders ORDER BY name', (err, rows) => {
+        if (err) reject(err);
+        else resolve((rows || []).map(toMonitoredFolder));
+      });
+    });
+  }
+
+  async createWatchChannel(channel: DriveWatchChannel): Promise<void> {
+    const stmt = this.db.prepare(
+      `INSERT INTO drive_watch_channels (id, resourceId, token, pageToken, expiration, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    );
+    return new Promise((resolve, reject) => {
+      stmt.run(channel.id, channel.resourceId, channel.token, channel.pageToken, channel.expiration, channel.createdAt, function(err: Error | null) {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  async getWatchChannel(id: string): Promise<DriveWatchChannel | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM drive_watch_channels WHERE id = ?', [id], (err, row) => {
+        if (err) reject(err);
+        else resolve((row as DriveWatchChannel) || null);
+      });
+    });
+  }
+
+  async getWatchChannels(): Promise<DriveWatchChannel[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM drive_watch_channels ORDER BY expiration DESC', (err, rows) => {
+        if (err) reject(err);
+        else resolve((rows as DriveWatchChannel[]) || []);
+      });
+    });
+  }
+
+  async updateWatchChannelPageToken(id: string, pageToken: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run('UPDATE drive_watch_channels SET pageToken = ? WHERE id = ?', [pageToken, id], (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  async deleteWatchChannel(id: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM drive_watch_channels WHERE id = ?', [id], (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  async getSyncCursor(sourceType: SourceType, rootId: string): Promise<SyncCursor | null> {
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        'SELECT * FROM sync_cursors WHERE sourceType = ? AND rootId = ?',
+        [sourceType, rootId],
+        (err, row) => {
+          if (err) reject(err);
+          else resolve((row as SyncCursor) || null);
+        }
+      );
+    });
+  }
+
+  // lastFullSyncAt is only moved forward by full syncs; incremental syncs keep the previous value
+  async saveSyncCursor(sourceType: SourceType, rootId: string, cursor: string, fullSyncAt?: string): Promise<void> {
+    const stmt = this.db.prepare(
+      `INSERT INTO sync_cursors (sourceType, rootId, cursor, lastFullSyncAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (sourceType, rootId) DO UPDATE SET
+         cursor = excluded.cursor,
+         lastFullSyncAt = COALESCE(excluded.lastFullSyncAt, sync_cursors.lastFullSyncAt),
+         updatedAt = excluded.updatedAt`
+    );
+    return new Promise((resolve, reject) => {
+      stmt.run(sourceType, rootId, cursor, fullSyncAt || null, new Date().toISOString(), function(err: Error | null) {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
   async getLatestIngestionRun(): Promise<IngestionRun | null> {
     return new Promise((resolve, reject) => {
       this.db.get(
@@ -451,7 +910,9 @@ export class Database {
   async getRecentChanges(limit: number = 20): Promise<any[]> {
     return new Promise((resolve, reject) => {
       this.db.all(
-        `SELECT cr.*, d.fileName 
+        `SELECT cr.*, d.fileName,
+                CASE WHEN json_valid(cr.reason) THEN json_extract(cr.reason, '$.modifiedBy.name') END AS modifiedBy,
+                CASE WHEN json_valid(cr.reason) THEN json_extract(cr.reason, '$.modifiedBy.email') END AS modifiedByEmail
          FROM change_records cr 
          LEFT JOIN documents d ON cr.documentId = d.id AND cr.changeType != 'baseline'
          ORDER BY cr.detectedAt DESC 
@@ -481,7 +942,8 @@ export class Database {
   }
 
   close(): void {
-    this.db.close();
+    this.connection.close();
+    this.transactionConnection?.close();
   }
 }
 
@@ -4,9 +4,13 @@ import { v4 as uuidv4 } from 'uuid';
 import { db } from './db';
 import { googleDriveService } from './services/googleDrive';
 import { schedulerService } from './services/scheduler';
+import { driveWebhookService } from './services/driveWebhooks';
 import { authManager } from './auth';
-import { getExplanationGenerator, generateAndStoreExplanation, backfillNullExplanations } from './services/explanationGenerator';
-import { ChangeRecord, ChangeReason, DocumentVersion, IngestionRun, ExplanationInput } from './types';
+import { backfillNullExplanations } from './services/explanationGenerator';
+import { IngestionOptions, previewIngestion, startIngestion } from './services/ingestion';
+import { isSourceType, SOURCE_TYPES } from './services/documentSource';
+import { MAX_INTERVAL_MINUTES, ensureFolderForRoot, newMonitoredFolder, parseFolderSettings, resolveRootId } from './services/monitoredFolders';
+import { IngestionRun, MonitoredFolder } from './types';
 import fs from 'fs';
 import path from 'path';
 
@@ -26,60 +30,43 @@ if (!fs.existsSync(dataDir)) {
 (async () => {
   try {
     await db.initialize();
+    const interrupted = await db.markUnfinishedRunsInterrupted();
+    if (interrupted > 0) {
+      console.warn(`⚠️  Marked ${interrupted} unfinished ingestion run(s) as interrupted`);
+    }
     await authManager.loadAccessTokenFromDatabase();
     
     // Initialize scheduler with ingestion callback
-    schedulerService.setIngestionCallback(async (runId: string, folderId: string) => {
-      await runIngestionForScheduler(runId, folderId);
+    schedulerService.setIngestionCallback(async (runId: string, folder: MonitoredFolder) => {
+      await runIngestionForScheduler(runId, folder);
     });
     await schedulerService.initialize();
+
+    driveWebhookService.setIngestionCallback(runIngestionForScheduler);
+    await driveWebhookService.initialize();
   } catch (error) {
     console.error('Failed to initialize:', error);
   }
 })();
 
-// Wrapper for scheduler to run ingestion
-async function runIngestionForScheduler(runId: string, folderId: string): Promise<void> {
+// Records a pending run for the folder; startIngestion updates it as it progresses
+async function createIngestionRun(folder: MonitoredFolder, runId: string = uuidv4()): Promise<IngestionRun> {
   const run: IngestionRun = {
     id: runId,
+    folderId: folder.id,
     createdAt: new Date().toISOString(),
     status: 'pending',
     documentsProcessed: 0,
     changesDetected: 0,
   };
   await db.createIngestionRun(run);
-  await startIngestion(runId, folderId);
+  return run;
 }
 
-// Queue explanation generation (non-blocking)
-function queueExplanation(
-  changeRecord: ChangeRecord,
-  documentName?: string,
-  previousContent?: string,
-  newContent?: string
-): void {
-  const generator = getExplanationGenerator();
-  
-  let parsedReason = {};
-  if (changeRecord.reason) {
-    try {
-      parsedReason = JSON.parse(changeRecord.reason);
-    } catch {
-      parsedReason = {};
-    }
-  }
-  
-  const input: ExplanationInput = {
-    changeRecord,
-    documentName,
-    previousContent,
-    newContent,
-    reason: parsedReason,
-  };
-  
-  generateAndStoreExplanation(changeRecord.id, generator, input).catch((err) => {
-    console.error(`Failed to generate explanation for ${changeRecord.id}:`, err);
-  });
+// Wrapper for scheduler to run ingestion
+async function runIngestionForScheduler(runId: string, folder: MonitoredFolder, options?: IngestionOptions): Promise<void> {
+  await createIngestionRun(folder, runId);
+  await startIngestion(runId, folder, options);
 }
 
 // List Drive Files
@@ -138,6 +125,7 @@ app.get('/auth/callback', async (req: Request, res: Response) => {
     }
 
     await authManager.exchangeCodeForToken(code);
+    driveWebhookService.renewSubscriptions().catch(console.error);
     res.json({
       success: true,
       message: 'Successfully authenticated with Google Drive',
@@ -165,7 +153,8 @@ app.get('/privacy-policy', (req: Request, res: Response) => {
 // Get all ingestion runs
 app.get('/api/ingestion-runs', async (req: Request, res: Response) => {
   try {
-    const runs = await db.getIngestionRuns();
+    const folderId = req.query.folderId as string | undefined;
+    const runs = await db.getIngestionRuns(folderId);
     res.json(runs);
   } catch (error) {
     console.error('Error fetching ingestion runs:', error);
@@ -173,28 +162,84 @@ app.get('/api/ingestion-runs', async (req: Request, res: Response) => {
   }
 });
 
+// Per-file outcomes of a run
+app.get('/api/ingestion-runs/:id/items', async (req: Request, res: Response) => {
+  try {
+    const run = await db.getIngestionRun(req.params.id);
+    if (!run) {
+      return res.status(404).json({ error: 'Ingestion run not found' });
+    }
+
+    const items = await db.getIngestionRunItems(run.id);
+    const outcome = req.query.outcome as string | undefined;
+    res.json(outcome ? items.filter(item => item.outcome === outcome) : items);
+  } catch (error) {
+    console.error('Error fetching ingestion run items:', error);
+    res.status(500).json({ error: 'Failed to fetch ingestion run items' });
+  }
+});
+
 // Create manual ingestion run
 app.post('/api/ingestion-runs', async (req: Request, res: Response) => {
   try {
-    const { googleDriveFolderId } = req.body;
+    // Either a monitored folder, or a root: googleDriveFolderId is shorthand for
+    // { sourceType: 'google_drive', rootId }, and a root without a folder gets one
+    const { folderId, googleDriveFolderId, fullSync, dryRun, backfill } = req.body;
+    const sourceType = req.body.sourceType ?? 'google_drive';
+    let rootId = req.body.rootId ?? googleDriveFolderId;
+
+    if (!folderId && !isSourceType(sourceType)) {
+      return res.status(400).json({ error: `sourceType must be one of: ${SOURCE_TYPES.join(', ')}` });
+    }
 
-    if (!googleDriveFolderId) {
-      return res.status(400).json({ error: 'googleDriveFolderId is required' });
+    if (!folderId && (typeof rootId !== 'string' || !rootId)) {
+      return res.status(400).json({ error: 'folderId, rootId (or googleDriveFolderId) is required' });
     }
 
-    const runId = uuidv4();
-    const run: IngestionRun = {
-      id: runId,
-      createdAt: new Date().toISOString(),
-      status: 'pending',
-      documentsProcessed: 0,
-      changesDetected: 0,
-    };
+    if (!folderId) {
+      const root = resolveRootId(sourceType, rootId);
+      if ('error' in root) {
+        return res.status(400).json({ error: root.error });
+      }
+      rootId = root.rootId;
+    }
+
+    if (fullSync !== undefined && typeof fullSync !== 'boolean') {
+      return res.status(400).json({ error: 'fullSync must be a boolean' });
+    }
 
-    await db.createIngestionRun(run);
+    if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+      return res.status(400).json({ error: 'dryRun must be a boolean' });
+    }
+
+    if (backfill !== undefined) {
+      const isCount = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) > 0);
+      if (typeof backfill !== 'object' || backfill === null || !isCount(backfill.maxRevisions) || !isCount(backfill.months)
+        || (backfill.maxRevisions === undefined && backfill.months === undefined)) {
+        return res.status(400).json({ error: 'backfill must be { maxRevisions?, months? } with at least one positive integer' });
+      }
+    }
+    const options = { fullSync, backfill: backfill && { maxRevisions: backfill.maxRevisions, months: backfill.months } };
+
+    // A dry run of a root that is not monitored yet previews it without adding it
+    const folder = folderId
+      ? await db.getMonitoredFolder(folderId)
+      : dryRun
+        ? (await db.getMonitoredFolderByRoot(sourceType, rootId)) || newMonitoredFolder({ sourceType, rootId, name: rootId })
+        : await ensureFolderForRoot(sourceType, rootId);
+    if (!folder) {
+      return res.status(404).json({ error: 'Monitored folder not found' });
+    }
+
+    // Dry runs complete before responding, with the change records they would have created
+    if (dryRun) {
+      return res.json({ dryRun: true, ...(await previewIngestion(folder, options)) });
+    }
+
+    const run = await createIngestionRun(folder);
 
     // Start ingestion in background
-    startIngestion(runId, googleDriveFolderId).catch(console.error);
+    startIngestion(run.id, folder, options).catch(console.error);
 
     res.json(run);
   } catch (error) {
@@ -203,10 +248,133 @@ app.post('/api/ingestion-runs', async (req: Request, res: Response) => {
   }
 });
 
+// Monitored folders
+app.get('/api/folders', async (req: Request, res: Response) => {
+  try {
+    const folders = await db.getMonitoredFolders();
+    res.json(folders);
+  } catch (error) {
+    console.error('Error fetching folders:', error);
+    res.status(500).json({ error: 'Failed to fetch folders' });
+  }
+});
+
+app.post('/api/folders', async (req: Request, res: Response) => {
+  try {
+    const parsed = parseFolderSettings(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const { sourceType, rootId, name } = parsed.settings;
+    if (await db.getMonitoredFolderByRoot(sourceType!, rootId!)) {
+      return res.status(409).json({ error: 'This root is already monitored' });
+    }
+
+    const folder = newMonitoredFolder({ ...parsed.settings, sourceType: sourceType!, rootId: rootId!, name: name! });
+    await db.createMonitoredFolder(folder);
+    await schedulerService.scheduleFolder(folder);
+    driveWebhookService.renewSubscriptions().catch(console.error);
+    res.status(201).json(await db.getMonitoredFolder(folder.id));
+  } catch (error) {
+    console.error('Error creating folder:', error);
+    res.status(500).json({ error: 'Failed to create folder' });
+  }
+});
+
+app.get('/api/folders/:id', async (req: Request, res: Response) => {
+  try {
+    const folder = await db.getMonitoredFolder(req.params.id);
+    if (!folder) {
+      return res.status(404).json({ error: 'Monitored folder not found' });
+    }
+
+    const [activeDocuments, runs] = await Promise.all([
+      db.getActiveDocumentsForFolder(folder.id),
+      db.getIngestionRuns(folder.id),
+    ]);
+    res.json({
+      ...folder,
+      documentCount: activeDocuments.length,
+      lastIngestion: runs[0] || null,
+    });
+  } catch (error) {
+    console.error('Error fetching folder:', error);
+    res.status(500).json({ error: 'Failed to fetch folder' });
+  }
+});
+
+app.patch('/api/folders/:id', async (req: Request, res: Response) => {
+  try {
+    const folder = await db.getMonitoredFolder(req.params.id);
+    if (!folder) {
+      return res.status(404).json({ error: 'Monitored folder not found' });
+    }
+
+    const parsed = parseFolderSettings(req.body, folder);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    await db.updateMonitoredFolder(folder.id, parsed.settings);
+    const updated = (await db.getMonitoredFolder(folder.id))!;
+    if (parsed.settings.scheduleEnabled !== undefined || parsed.settings.intervalMinutes !== undefined) {
+      await schedulerService.scheduleFolder(updated);
+    }
+    res.json(await db.getMonitoredFolder(folder.id));
+  } catch (error) {
+    console.error('Error updating folder:', error);
+    res.status(500).json({ error: 'Failed to update folder' });
+  }
+});
+
+app.delete('/api/folders/:id', async (req: Request, res: Response) => {
+  try {
+    const folder = await db.getMonitoredFolder(req.params.id);
+    if (!folder) {
+      return res.status(404).json({ error: 'Monitored folder not found' });
+    }
+
+    schedulerService.unscheduleFolder(folder.id);
+    await db.deleteMonitoredFolder(folder.id);
+    driveWebhookService.renewSubscriptions().catch(console.error);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting folder:', error);
+    res.status(500).json({ error: 'Failed to delete folder' });
+  }
+});
+
+// Drive changes.watch notifications. The body is empty; everything is in the X-Goog-* headers.
+app.post('/webhooks/drive', async (req: Request, res: Response) => {
+  try {
+    const result = await driveWebhookService.handleNotification(req.headers);
+    res.status(result.status).json({ message: result.message });
+  } catch (error) {
+    console.error('Error handling Drive notification:', error);
+    res.status(500).json({ error: 'Failed to handle notification' });
+  }
+});
+
+// List active Drive watch channels (tokens are not exposed)
+app.get('/api/webhooks/drive/channels', async (req: Request, res: Response) => {
+  try {
+    const channels = await db.getWatchChannels();
+    res.json({
+      enabled: driveWebhookService.isEnabled(),
+      channels: channels.map(({ token, ...channel }) => channel),
+    });
+  } catch (error) {
+    console.error('Error fetching Drive watch channels:', error);
+    res.status(500).json({ error: 'Failed to fetch watch channels' });
+  }
+});
+
 // Get documents
 app.get('/api/documents', async (req: Request, res: Response) => {
   try {
-    const documents = await db.getAllDocuments();
+    const folderId = req.query.folderId as string | undefined;
+    const documents = folderId ? await db.getDocumentsForFolder(folderId) : await db.getAllDocuments();
     res.json(documents);
   } catch (error) {
     console.error('Error fetching documents:', error);
@@ -241,7 +409,8 @@ app.get('/api/documents/:id', async (req: Request, res: Response) => {
 // Get change records
 app.get('/api/change-records', async (req: Request, res: Response) => {
   try {
-    const changes = await db.getChangeRecords();
+    const author = req.query.author as string | undefined;
+    const changes = author ? await db.getChangeRecordsByAuthor(author) : await db.getChangeRecords();
     res.json(changes);
   } catch (error) {
     console.error('Error fetching change records:', error);
@@ -259,6 +428,7 @@ app.get('/api/dashboard', async (req: Request, res: Response) => {
     const lastRun = await db.getLatestIngestionRun();
     const recentChanges = await db.getRecentChanges(10);
     const documents = await db.getAllDocuments();
+    const folders = await db.getMonitoredFolders();
     
     res.json({
       googleDrive: {
@@ -278,6 +448,16 @@ app.get('/api/dashboard', async (req: Request, res: Response) => {
         documentsProcessed: lastRun.documentsProcessed,
         changesDetected: lastRun.changesDetected,
       } : null,
+      folders: folders.map(folder => ({
+        id: folder.id,
+        name: folder.name,
+        sourceType: folder.sourceType,
+        owner: folder.owner,
+        scheduleEnabled: folder.scheduleEnabled,
+        intervalMinutes: folder.intervalMinutes,
+        lastRun: folder.lastRun,
+        nextRun: folder.nextRun,
+      })),
       stats: {
         totalDocuments: documents.length,
         recentChanges: recentChanges.length,
@@ -301,7 +481,7 @@ app.post('/api/scheduler', async (req: Request, res: Response) => {
     const updates: any = {};
     
     if (typeof enabled === 'boolean') updates.enabled = enabled;
-    if (typeof intervalMinutes === 'number' && intervalMinutes >= 1) updates.intervalMinutes = intervalMinutes;
+    if (typeof intervalMinutes === 'number' && intervalMinutes >= 1 && intervalMinutes <= MAX_INTERVAL_MINUTES) updates.intervalMinutes = intervalMinutes;
     if (typeof folderId === 'string') updates.folderId = folderId;
     
     const config = await schedulerService.updateConfig(updates);
@@ -351,304 +531,6 @@ app.get('/api/scheduler/status', (req: Request, res: Response) => {
   });
 });
 
-// Ingestion logic with baseline detection, deletion detection, reasons, and severity
-async function startIngestion(runId: string, googleDriveFolderId: string): Promise<void> {
-  try {
-    console.log(`\n🚀 Starting ingestion run ${runId} for folder ${googleDriveFolderId}`);
-    
-    // Check if authenticated
-    if (!(await authManager.isAuthenticated())) {
-      console.error('❌ Not authenticated with Google Drive. Cannot start ingestion.');
-      await db.updateIngestionRun(runId, {
-        status: 'failed',
-        error: 'Not authenticated with Google Drive',
-      });
-      return;
-    }
-    
-    await db.updateIngestionRun(runId, { status: 'in_progress' });
-
-    // Check if this is a baseline run (no documents exist at all, including deleted ones)
-    // This ensures baseline only happens on the truly first ingestion ever
-    const totalDocCount = await db.getTotalDocumentCount();
-    const isBaselineRun = totalDocCount === 0;
-    if (isBaselineRun) {
-      console.log('📋 BASELINE RUN: First ingestion ever - will suppress individual CREATED records');
-    }
-
-    // Fetch files from Google Drive folder
-    console.log('📥 Fetching files from Google Drive...');
-    const files = await googleDriveService.listFiles(googleDriveFolderId);
-    console.log(`📦 Received ${files.length} files from Google Drive`);
-
-    // Build set of current Google Drive IDs for deletion detection
-    const currentDriveIds = new Set<string>();
-
-    let changesDetected = 0;
-    let docsProcessed = 0;
-
-    for (const file of files) {
-      // Filter for supported document types
-      const supportedMimes = [
-        'application/pdf',
-        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-        'application/vnd.google-apps.document',
-      ];
-
-      if (!supportedMimes.includes(file.mimeType)) {
-        continue;
-      }
-
-      currentDriveIds.add(file.id);
-      docsProcessed++;
-
-      // Download and extract content
-      const content = await extractContent(file);
-
-      if (!content) {
-        continue;
-      }
-
-      // For Google Docs, always use sha256 of exported content (no md5Checksum available)
-      const hash = (file.mimeType === 'application/vnd.google-apps.document' || !file.md5Checksum)
-        ? `sha256:${googleDriveService.computeHash(content)}`
-        : `md5:${file.md5Checksum}`;
-
-      // Log file details for debugging
-      console.log(`  📊 Processing: ${file.name} | mime: ${file.mimeType} | content length: ${content.length} | hash: ${hash.substring(0, 20)}...`);
-
-      // Check if document exists (including soft-deleted ones that reappeared)
-      let document = await db.getDocumentByGoogleDriveId(file.id);
-
-      if (!document) {
-        // New document
-        const docId = googleDriveService.generateId();
-        const versionId = googleDriveService.generateId();
-
-        document = {
-          id: docId,
-          googleDriveId: file.id,
-          fileName: file.name,
-          mimeType: file.mimeType,
-          lastModified: file.modifiedTime,
-          currentVersionId: versionId,
-          currentHash: hash,
-        };
-
-        await db.createDocument(document);
-
-        const version: DocumentVersion = {
-          id: versionId,
-          documentId: docId,
-          hash,
-          content,
-          createdAt: new Date().toISOString(),
-        };
-
-        await db.createDocumentVersion(version);
-
-        // Only create CREATED change record if not a baseline run
-        if (!isBaselineRun) {
-          const reason: ChangeReason = {};
-          const changeRecord: ChangeRecord = {
-            id: googleDriveService.generateId(),
-            documentId: docId,
-            newVersionId: versionId,
-            changeType: 'created',
-            detectedAt: new Date().toISOString(),
-            summary: `Document "${file.name}" added to the system`,
-            reason: JSON.stringify(reason),
-            severity: 'medium',
-          };
-
-          await db.createChangeRecord(changeRecord);
-          queueExplanation(changeRecord, file.name, undefined, content);
-          changesDetected++;
-        }
-      } else {
-        // Document exists - check if it was previously deleted (reappeared)
-        if (document.isDeleted) {
-          console.log(`  🔄 Document reappeared: ${file.name}`);
-          await db.updateDocument(document.id, { isDeleted: false, deletedAt: undefined } as any);
-          
-          if (!isBaselineRun) {
-            const reason: ChangeReason = {};
-            const changeRecord: ChangeRecord = {
-              id: googleDriveService.generateId(),
-              documentId: document.id,
-              newVersionId: document.currentVersionId,
-              changeType: 'created',
-              detectedAt: new Date().toISOString(),
-              summary: `Document "${file.name}" reappeared in the folder`,
-              reason: JSON.stringify(reason),
-              severity: 'medium',
-            };
-            await db.createChangeRecord(changeRecord);
-            queueExplanation(changeRecord, file.name, undefined, content);
-            changesDetected++;
-          }
-        }
-
-        // Check for rename and/or content change
-        const renamed = file.name !== document.fileName;
-        const contentChanged = hash !== document.currentHash;
-
-        if (renamed) {
-          console.log(`  🏷️  Rename detected: "${document.fileName}" -> "${file.name}"`);
-          const reason: ChangeReason = {
-            nameChanged: true,
-            oldName: document.fileName,
-            newName: file.name,
-          };
-          const renameRecord: ChangeRecord = {
-            id: googleDriveService.generateId(),
-            documentId: document.id,
-            newVersionId: document.currentVersionId,
-            changeType: 'renamed',
-            detectedAt: new Date().toISOString(),
-            summary: `Document renamed from "${document.fileName}" to "${file.name}"`,
-            reason: JSON.stringify(reason),
-            severity: 'low',
-          };
-          await db.createChangeRecord(renameRecord);
-          queueExplanation(renameRecord, file.name);
-          await db.updateDocument(document.id, { fileName: file.name, lastModified: file.modifiedTime });
-          changesDetected++;
-        }
-
-        if (contentChanged) {
-          console.log(`  ✏️  Content change detected: ${file.name}`);
-          const versionId = googleDriveService.generateId();
-
-          const version: DocumentVersion = {
-            id: versionId,
-            documentId: document.id,
-            hash,
-            content,
-            createdAt: new Date().toISOString(),
-          };
-
-          await db.createDocumentVersion(version);
-
-          const reason: ChangeReason = {
-            contentChanged: true,
-          };
-          const changeRecord: ChangeRecord = {
-            id: googleDriveService.generateId(),
-            documentId: document.id,
-            previousVersionId: document.currentVersionId,
-            newVersionId: versionId,
-            changeType: 'modified',
-            detectedAt: new Date().toISOString(),
-            summary: `Document "${file.name}" content has changed`,
-            reason: JSON.stringify(reason),
-            severity: 'high',
-          };
-
-          await db.createChangeRecord(changeRecord);
-          
-          // For modified, fetch previous content for diff
-          const prevVersion = document.currentVersionId ? await db.getDocumentVersion(document.currentVersionId) : null;
-          queueExplanation(changeRecord, file.name, prevVersion?.content, content);
-
-          await db.updateDocument(document.id, {
-            currentVersionId: versionId,
-            currentHash: hash,
-            lastModified: file.modifiedTime,
-          });
-
-          changesDetected++;
-        }
-      }
-    }
-
-    // DELETION DETECTION: Find documents that are in DB but not in current folder listing
-    const activeDocuments = await db.getActiveDocuments();
-    let deletedCount = 0;
-    for (const doc of activeDocuments) {
-      if (!currentDriveIds.has(doc.googleDriveId)) {
-        console.log(`  🗑️  Deletion detected: ${doc.fileName} (no longer in folder)`);
-        const now = new Date().toISOString();
-        
-        const reason: ChangeReason = {
-          lastSeenAt: doc.lastModified,
-          lastKnownName: doc.fileName,
-        };
-        const deleteRecord: ChangeRecord = {
-          id: googleDriveService.generateId(),
-          documentId: doc.id,
-          previousVersionId: doc.currentVersionId,
-          changeType: 'deleted',
-          detectedAt: now,
-          summary: `Document "${doc.fileName}" removed from folder or deleted`,
-          reason: JSON.stringify(reason),
-          severity: 'medium',
-        };
-        await db.createChangeRecord(deleteRecord);
-        queueExplanation(deleteRecord, doc.fileName);
-        await db.updateDocument(doc.id, { isDeleted: true, deletedAt: now } as any);
-        
-        changesDetected++;
-        deletedCount++;
-      }
-    }
-    if (deletedCount > 0) {
-      console.log(`📊 Deletion detection: ${deletedCount} documents marked as deleted`);
-    }
-
-    // Create baseline summary record if this was a baseline run
-    if (isBaselineRun && docsProcessed > 0) {
-      const reason: ChangeReason = {
-        baselineDocCount: docsProcessed,
-      };
-      const baselineRecord: ChangeRecord = {
-        id: googleDriveService.generateId(),
-        // documentId is undefined/null for system-level baseline records
-        changeType: 'baseline',
-        detectedAt: new Date().toISOString(),
-        summary: `Baseline established: ${docsProcessed} documents indexed`,
-        reason: JSON.stringify(reason),
-        severity: 'low',
-      };
-      await db.createChangeRecord(baselineRecord);
-      queueExplanation(baselineRecord);
-      changesDetected = 1;
-      console.log(`📋 Baseline record created: ${docsProcessed} documents indexed`);
-    }
-
-    await db.updateIngestionRun(runId, {
-      status: 'completed',
-      documentsProcessed: docsProcessed,
-      changesDetected,
-    });
-  } catch (error) {
-    console.error('Ingestion error:', error);
-    await db.updateIngestionRun(runId, {
-      status: 'failed',
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-}
-
-// Content extraction - exports actual text for Google Docs
-async function extractContent(file: any): Promise<string> {
-  try {
-    if (file.mimeType === 'application/vnd.google-apps.document') {
-      const text = await googleDriveService.exportGoogleDocText(file.id);
-      console.log(`  📝 Exported Google Doc: ${file.name} (${text?.length ?? 0} chars)`);
-      return text ?? '';
-    }
-
-    if (file.mimeType === 'application/pdf') return '[PDF Placeholder]';
-    if (file.mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document')
-      return '[DOCX Placeholder]';
-  } catch (error) {
-    console.error(`Error extracting content from ${file.id}:`, error);
-  }
-
-  return '';
-}
-
 // Start server
 app.listen(PORT, '0.0.0.0', () => {
   console.log(`TrainLoop backend running on http://0.0.0.0:${PORT}`);
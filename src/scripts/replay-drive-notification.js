@@ -0,0 +1,35 @@
+require("dotenv").config();
+
+const fs = require("fs");
+const path = require("path");
+
+// Replays recorded Drive push notifications against the local webhook endpoint.
+// The payload file holds { headers } or an array of them; DRIVE_CHANNEL_ID and
+// DRIVE_CHANNEL_TOKEN override the recorded channel, e.g. to target a channel from
+// GET /api/webhooks/drive/channels.
+const payloadPath = process.argv[2] || path.join(__dirname, "fixtures", "drive-change-notification.json");
+const webhookUrl = process.env.WEBHOOK_REPLAY_URL || "http://localhost:5000/webhooks/drive";
+
+(async () => {
+  try {
+    const payload = JSON.parse(fs.readFileSync(payloadPath, "utf8"));
+    const notifications = Array.isArray(payload) ? payload : [payload];
+
+    for (const notification of notifications) {
+      const headers = { ...notification.headers };
+      if (process.env.DRIVE_CHANNEL_ID) headers["X-Goog-Channel-ID"] = process.env.DRIVE_CHANNEL_ID;
+      if (process.env.DRIVE_CHANNEL_TOKEN) headers["X-Goog-Channel-Token"] = process.env.DRIVE_CHANNEL_TOKEN;
+
+      console.log(`➡️ Replaying ${headers["X-Goog-Resource-State"] || "unknown"} notification for channel:`, headers["X-Goog-Channel-ID"]);
+
+      const res = await fetch(webhookUrl, { method: "POST", headers });
+      const text = await res.text();
+
+      console.log("⬅️ Response status:", res.status);
+      console.log("⬅️ Response body:", text);
+    }
+  } catch (err) {
+    console.error("❌ Failed to replay notification:", err);
+    process.exit(1);
+  }
+})();
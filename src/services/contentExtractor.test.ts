@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderSpreadsheetText } from './contentExtractor';
+
+describe('renderSpreadsheetText', () => {
+  // [case, csv, paragraphs after the tab marker]
+  const cases: Array<[string, string, string[]]> = [
+    ['one paragraph per row', 'Role,Days\nStaff,25\n', ['Role,Days', 'Staff,25']],
+    ['Windows line endings', 'Role,Days\r\nStaff,25\r\n', ['Role,Days', 'Staff,25']],
+    ['a line break inside a quoted cell', 'Role,Notes\nStaff,"Full time\nand part time"', ['Role,Notes', 'Staff,"Full time and part time"']],
+    ['an empty row between rows', 'Role,Days\n\nStaff,25', ['Role,Days', '""', 'Staff,25']],
+    ['trailing empty rows', 'Role,Days\nStaff,25\n,\n""\n', ['Role,Days', 'Staff,25']],
+    ['an empty tab', '', []],
+  ];
+  for (const [name, csv, rows] of cases) {
+    it(`renders ${name}`, () => {
+      assert.deepEqual(renderSpreadsheetText([{ title: 'Leave', csv }]).split('\n\n'), ['\fsheet:Leave', ...rows]);
+    });
+  }
+
+  it('renders each tab under its own marker', () => {
+    assert.equal(
+      renderSpreadsheetText([{ title: 'Leave', csv: 'Staff,25' }, { title: 'Travel', csv: 'Rail,Standard' }]),
+      '\fsheet:Leave\n\nStaff,25\n\n\fsheet:Travel\n\nRail,Standard'
+    );
+  });
+});
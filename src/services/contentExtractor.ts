@@ -0,0 +1,215 @@
+import { PDFParse, PasswordException } from 'pdf-parse';
+import { googleDriveService } from './googleDrive';
+import { DocumentSource, SourceFile } from './documentSource';
+import { formatLocationMarker } from './locationMarkers';
+import { extractDocxText } from './docxExtractor';
+
+export type ExtractionFailureReason = 'encrypted' | 'image_only' | 'unreadable';
+
+// Thrown when a file was downloaded but its text cannot be extracted.
+// Ingestion reports these per file instead of storing a placeholder.
+export class ExtractionError extends Error {
+  constructor(
+    public readonly reason: ExtractionFailureReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ExtractionError';
+  }
+}
+
+// Thrown when the source could not deliver the file (API error, file gone, not authenticated)
+export class SourceFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceFetchError';
+  }
+}
+
+function requireFetched<T>(value: T | null, file: SourceFile, what: string): T {
+  if (value === null) throw new SourceFetchError(`${what} of "${file.name}" failed`);
+  return value;
+}
+
+export interface ContentExtractor {
+  label: string;
+  extract(file: SourceFile, source: DocumentSource): Promise<string>;
+}
+
+// Registry of supported document types. Files with any other MIME type are skipped by ingestion.
+// Google-native types only come from Drive, so they are exported through the Drive service.
+const EXTRACTORS: Record<string, ContentExtractor> = {
+  'application/vnd.google-apps.document': {
+    label: 'Google Doc',
+    // A file with a revision is a historical snapshot being backfilled
+    extract: async (file) => requireFetched(
+      file.revision
+        ? await googleDriveService.exportGoogleDocRevisionText(file.id, file.revision)
+        : await googleDriveService.exportGoogleDocText(file.id),
+      file,
+      'Export'
+    ),
+  },
+  'application/vnd.google-apps.spreadsheet': {
+    label: 'Google Sheet',
+    extract: extractSpreadsheet,
+  },
+  'application/vnd.google-apps.presentation': {
+    label: 'Google Slides',
+    extract: extractPresentation,
+  },
+  'application/pdf': {
+    label: 'PDF',
+    extract: async (file, source) => extractPdfText(requireFetched(await source.fetchContent(file), file, 'Download')),
+  },
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': {
+    label: 'DOCX',
+    extract: async (file, source) => {
+      const data = requireFetched(await source.fetchContent(file), file, 'Download');
+      const { text, annotations } = await extractDocxText(data);
+      if (annotations.length > 0) {
+        const comments = annotations.filter(a => a.type === 'comment').length;
+        console.log(`  💬 Excluded from body: ${annotations.length - comments} tracked change(s), ${comments} comment(s)`);
+      }
+      return text;
+    },
+  },
+  'text/plain': {
+    label: 'text file',
+    extract: extractPlainText,
+  },
+  'text/markdown': {
+    label: 'Markdown',
+    extract: extractPlainText,
+  },
+};
+
+export const SUPPORTED_MIME_TYPES = Object.keys(EXTRACTORS);
+
+export function isSupportedMimeType(mimeType: string): boolean {
+  return mimeType in EXTRACTORS;
+}
+
+export async function extractContent(file: SourceFile, source: DocumentSource): Promise<string> {
+  const extractor = EXTRACTORS[file.mimeType];
+  if (!extractor) return '';
+
+  try {
+    const text = await extractor.extract(file, source);
+    console.log(`  📝 Extracted ${extractor.label}: ${file.name} (${text.length} chars)`);
+    return text;
+  } catch (error) {
+    if (error instanceof ExtractionError || error instanceof SourceFetchError) throw error;
+    console.error(`Error extracting content from ${file.id}:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ExtractionError('unreadable', `${extractor.label} could not be parsed: ${message}`);
+  }
+}
+
+async function extractPlainText(file: SourceFile, source: DocumentSource): Promise<string> {
+  const data = requireFetched(await source.fetchContent(file), file, 'Download');
+  return data.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+// Each page is preceded by a page marker so diffs can report "page N"
+export async function extractPdfText(data: Buffer): Promise<string> {
+  const parser = new PDFParse({ data });
+  try {
+    const result = await parser.getText();
+    const pages = result.pages.map(page => ({ num: page.num, text: page.text.trim() }));
+
+    if (pages.every(page => page.text.length === 0)) {
+      throw new ExtractionError('image_only', 'PDF has no text layer (scanned or image-only); OCR is not supported');
+    }
+
+    return pages
+      .map(page => `${formatLocationMarker('page', page.num)}\n${page.text}`)
+      .join('\n\n');
+  } catch (error) {
+    if (error instanceof PasswordException) {
+      throw new ExtractionError('encrypted', 'PDF is password-protected and cannot be read');
+    }
+    throw error;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// Splits CSV into rows, keeping quoted line breaks inside their row
+function splitCsvRows(csv: string): string[] {
+  const rows: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of csv.replace(/\r\n?/g, '\n')) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === '\n' && !inQuotes) {
+      rows.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.length > 0) rows.push(current);
+  return rows;
+}
+
+// One CSV block per tab, one row per paragraph, so diffs can report "Sheet 'X' row N".
+// Empty rows are written as "" so row numbers stay aligned with the sheet.
+export function renderSpreadsheetText(tabs: Array<{ title: string; csv: string }>): string {
+  return tabs
+    .map(tab => {
+      const rows = splitCsvRows(tab.csv).map(row => row.replace(/\n/g, ' ').trim() || '""');
+      while (rows.length > 0 && /^[",]*$/.test(rows[rows.length - 1])) rows.pop();
+      return [formatLocationMarker('sheet', tab.title), ...rows].join('\n\n');
+    })
+    .join('\n\n');
+}
+
+async function extractSpreadsheet(file: SourceFile): Promise<string> {
+  const tabs = requireFetched(await googleDriveService.listSpreadsheetTabs(file.id), file, 'Tab listing');
+
+  // Tabs are exported in parallel; the Drive service caps how many exports run at once
+  const csvs = await Promise.all(tabs.map(tab => googleDriveService.exportSpreadsheetTabCsv(file.id, tab.sheetId)));
+  if (csvs.some(csv => csv === null)) throw new SourceFetchError(`Export of a tab of "${file.name}" failed`);
+  return renderSpreadsheetText(tabs.map((tab, i) => ({ title: tab.title, csv: csvs[i]! })));
+}
+
+function collectTextElements(text: any): string {
+  return (text?.textElements || [])
+    .map((element: any) => element.textRun?.content || '')
+    .join('')
+    .trim();
+}
+
+function collectPageElementText(element: any): string[] {
+  if (element.shape) {
+    const text = collectTextElements(element.shape.text);
+    return text ? [text] : [];
+  }
+  if (element.table) {
+    return (element.table.tableRows || [])
+      .map((row: any) => (row.tableCells || []).map((cell: any) => collectTextElements(cell.text).replace(/\s+/g, ' ')))
+      .filter((cells: string[]) => cells.some(cell => cell.length > 0))
+      .map((cells: string[]) => `| ${cells.join(' | ')} |`);
+  }
+  if (element.elementGroup) {
+    return (element.elementGroup.children || []).flatMap(collectPageElementText);
+  }
+  return [];
+}
+
+// Each slide is preceded by a slide marker so diffs can report "Slide N"
+export function renderPresentationText(presentation: any): string {
+  return (presentation?.slides || [])
+    .map((slide: any, index: number) => {
+      const blocks = (slide.pageElements || []).flatMap(collectPageElementText);
+      return [formatLocationMarker('slide', index + 1), ...blocks].join('\n\n');
+    })
+    .join('\n\n');
+}
+
+async function extractPresentation(file: SourceFile): Promise<string> {
+  const presentation = requireFetched(await googleDriveService.getPresentation(file.id), file, 'Presentation fetch');
+  return renderPresentationText(presentation);
+}
@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeContent } from './contentNormalizer';
+import { NormalizationStep } from '../types';
+
+const ALL: NormalizationStep[] = ['bom', 'unicode', 'quotes', 'whitespace', 'dates'];
+
+describe('normalizeContent', () => {
+  // [case, text, steps, normalized]
+  const cases: Array<[string, string, NormalizationStep[], string]> = [
+    ['a byte order mark and zero-width spaces', '\uFEFFLeave\u200B policy', ['bom'], 'Leave policy'],
+    ['a non-breaking space and a ligature', 'Staff\u00A0benefits of\uFB01ce', ['unicode'], 'Staff benefits office'],
+    ['smart quotes', '“Staff” and the employee’s manager', ['quotes'], '"Staff" and the employee\'s manager'],
+    ['spacing and blank lines', '  Scope \r\n\r\n\r\n All\t\tstaff.  \n', ['whitespace'], 'Scope\nAll staff.'],
+    ['ISO dates', 'Last updated 2024-03-01T09:30:00Z', ['dates'], 'Last updated <date>'],
+    ['written dates', 'Effective March 1st, 2024 until 1 Feb. 2025 or 01/02/25', ['dates'], 'Effective <date> until <date> or <date>'],
+    ['only the steps asked for', '“Staff”  ', ['whitespace'], '“Staff”'],
+    ['nothing without steps', '\uFEFF“Staff”  ', [], '\uFEFF“Staff”  '],
+  ];
+  for (const [name, text, steps, normalized] of cases) {
+    it(`normalizes ${name}`, () => {
+      assert.equal(normalizeContent(text, steps), normalized);
+    });
+  }
+
+  it('applies steps in their fixed order whatever order they are given in', () => {
+    // Full-width digits must fold to ASCII before the date pattern can match them
+    assert.equal(normalizeContent('Updated ２０２４-03-01', ['dates', 'unicode']), 'Updated <date>');
+  });
+
+  it('treats noise edits as the same text', () => {
+    const before = 'Scope\n\nAll staff must "sign" the policy.';
+    const after = '\uFEFFScope \r\n\r\n\r\nAll\u00A0staff must “sign” the policy.\n';
+    assert.equal(normalizeContent(before, ALL), normalizeContent(after, ALL));
+  });
+});
@@ -0,0 +1,67 @@
+// Normalizations applied to extracted text before it is hashed, so edits that change nothing a
+// reader would notice (a BOM, smart quotes, non-breaking spaces, trailing whitespace) do not
+// count as content changes. The raw text is still what gets stored and diffed.
+
+import { NormalizationStep } from '../types';
+
+const MONTH = '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+const TIME = '(?:[ T]\\d{1,2}:\\d{2}(?::\\d{2})?(?:\\.\\d+)?(?: ?[AaPp][Mm])?(?:Z|[+-]\\d{2}:?\\d{2})?)?';
+// Also used to find dates whose change matters (src/services/thresholds.ts)
+export const DATE_PATTERN = new RegExp(
+  [
+    `\\b\\d{4}-\\d{2}-\\d{2}${TIME}`,
+    `\\b\\d{1,2}[/.]\\d{1,2}[/.]\\d{2,4}${TIME}`,
+    `\\b${MONTH}\\.? \\d{1,2}(?:st|nd|rd|th)?,? \\d{4}${TIME}`,
+    `\\b\\d{1,2}(?:st|nd|rd|th)? ${MONTH}\\.?,? \\d{4}${TIME}`,
+  ].join('|'),
+  'gi'
+);
+
+// In the order they are applied; `dates` is opt-in because a changed date can matter
+const STEPS: Record<NormalizationStep, (text: string) => string> = {
+  // Byte order marks and zero-width characters
+  bom: text => text.replace(/[\uFEFF\u200B\u200C\u200D\u2060]/g, ''),
+  // Compatibility forms fold to their plain equivalents (non-breaking space, ligatures, full-width letters)
+  unicode: text => text.normalize('NFKC'),
+  quotes: text => text
+    .replace(/[\u2018\u2019\u201A\u201B\u2032]/g, "'")
+    .replace(/[\u201C\u201D\u201E\u201F\u2033]/g, '"'),
+  whitespace: text => text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    // Exports add and drop blank lines between paragraphs
+    .replace(/\n{2,}/g, '\n')
+    .trim(),
+  // Date stamps such as "Last updated 2024-03-01" or "March 1, 2024" are replaced by a placeholder
+  dates: text => text.replace(DATE_PATTERN, '<date>'),
+};
+
+export const NORMALIZATION_STEPS = Object.keys(STEPS) as NormalizationStep[];
+const DEFAULT_STEPS: NormalizationStep[] = ['bom', 'unicode', 'quotes', 'whitespace'];
+
+export function isNormalizationStep(value: string): value is NormalizationStep {
+  return value in STEPS;
+}
+
+// CONTENT_NORMALIZATION is a comma-separated list of steps, or "none"
+function configuredSteps(): NormalizationStep[] {
+  const setting = process.env.CONTENT_NORMALIZATION;
+  if (setting === undefined) return DEFAULT_STEPS;
+  const names = setting.split(',').map(name => name.trim()).filter(name => name.length > 0 && name !== 'none');
+  for (const name of names) {
+    if (!isNormalizationStep(name)) {
+      console.warn(`⚠️  Unknown content normalization "${name}" ignored (known: ${NORMALIZATION_STEPS.join(', ')})`);
+    }
+  }
+  return NORMALIZATION_STEPS.filter(step => names.includes(step));
+}
+
+// The default for folders without their own normalization setting
+export const normalizationSteps = configuredSteps();
+
+export function normalizeContent(text: string, steps: NormalizationStep[] = normalizationSteps): string {
+  return NORMALIZATION_STEPS
+    .filter(step => steps.includes(step))
+    .reduce((normalized, step) => STEPS[step](normalized), text);
+}
@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeTextDiff, isReorderOnly } from './diffHelper';
+
+const paragraphs = (...lines: string[]) => lines.join('\n\n');
+
+describe('computeTextDiff', () => {
+  it('reports nothing for identical documents', () => {
+    const text = paragraphs('# Policy', 'Keep receipts.', 'End.');
+    const result = computeTextDiff(text, text);
+    assert.deepEqual(result.summary, { added: 0, removed: 0, modified: 0, moved: 0 });
+    assert.deepEqual(result.chunks, []);
+  });
+
+  it('reports unrelated paragraphs as removed and added', () => {
+    const result = computeTextDiff(paragraphs('A.', 'B para here.', 'C.'), paragraphs('A.', 'C.', 'D new.'));
+    assert.deepEqual(result.summary, { added: 1, removed: 1, modified: 0, moved: 0 });
+    assert.deepEqual(result.chunks.map(chunk => [chunk.type, chunk.before, chunk.after]), [['removed', 'B para here.', null], ['added', null, 'D new.']]);
+  });
+
+  it('pairs each paragraph of a run of consecutive edits', () => {
+    const result = computeTextDiff(
+      paragraphs(
+        '# Policy',
+        'Requests must be answered within 30 days of receipt.',
+        'Managers should review the access list every quarter.',
+        'Audits happen in the next review cycle for all teams.',
+        'Questions go to the compliance team.'
+      ),
+      paragraphs(
+        '# Policy',
+        'Requests must be answered within 14 days of receipt.',
+        'Managers must review the access list every quarter.',
+        'Audits happen in the following review cycle for all teams.',
+        'Questions go to the compliance team.'
+      )
+    );
+    assert.deepEqual(result.summary, { added: 0, removed: 0, modified: 3, moved: 0 });
+    assert.deepEqual(result.chunks.map(chunk => chunk.type), ['modified', 'modified', 'modified']);
+    assert.deepEqual(result.thresholdChanges.map(change => change.description), ['Deadline shortened from 30 days to 14 days']);
+    assert.deepEqual(result.modalityChanges.map(change => change.description), ['"should" became "must": a recommendation is now an obligation']);
+  });
+
+  // [case, before, after, summary, modified paragraphs]
+  const runCases: Array<[string, string[], string[], { added: number; removed: number; modified: number; moved: number }, string[]]> = [
+    [
+      'a single replacement',
+      ['Keep receipts for 30 days.'],
+      ['Keep receipts for 60 days.'],
+      { added: 0, removed: 0, modified: 1, moved: 0 },
+      ['Keep receipts for 60 days.'],
+    ],
+    [
+      'an insertion between two edits',
+      ['Requests must be answered within 30 days of receipt.', 'Managers should review the access list every quarter.'],
+      ['Requests must be answered within 14 days of receipt.', 'A new paragraph about something else entirely.', 'Managers must review the access list every quarter.'],
+      { added: 1, removed: 0, modified: 2, moved: 0 },
+      ['Requests must be answered within 14 days of receipt.', 'Managers must review the access list every quarter.'],
+    ],
+    [
+      'a removal next to an unrelated addition',
+      ['Visitors sign in at the front desk.', 'Badges are returned on exit.'],
+      ['Visitors sign in at the front desk and wait.', 'Parking is free for all employees on weekends.', 'Lunch is served at noon.'],
+      { added: 2, removed: 1, modified: 1, moved: 0 },
+      ['Visitors sign in at the front desk and wait.'],
+    ],
+  ];
+  for (const [name, before, after, summary, modified] of runCases) {
+    it(`pairs ${name}`, () => {
+      const result = computeTextDiff(paragraphs('# Policy', ...before, 'End.'), paragraphs('# Policy', ...after, 'End.'));
+      assert.deepEqual(result.summary, summary);
+      assert.deepEqual(result.chunks.filter(chunk => chunk.type === 'modified').map(chunk => chunk.after), modified);
+    });
+  }
+
+  it('redlines the words that changed within a modified paragraph', () => {
+    const result = computeTextDiff(
+      paragraphs('# Policy', 'Keep receipts for 30 days in the shared folder.', 'End.'),
+      paragraphs('# Policy', 'Keep all receipts for 60 days in the shared folder.', 'End.')
+    );
+    const [chunk] = result.chunks;
+    assert.deepEqual(chunk.redline, [
+      { type: 'same', text: 'Keep' },
+      { type: 'inserted', text: ' all' },
+      { type: 'same', text: ' receipts for' },
+      { type: 'deleted', text: ' 30' },
+      { type: 'inserted', text: ' 60' },
+      { type: 'same', text: ' days in the shared folder.' },
+    ]);
+    assert.deepEqual(chunk.inserted, ['all', '60']);
+    assert.deepEqual(chunk.deleted, ['30']);
+  });
+
+  it('shortens long unchanged stretches of a redline', () => {
+    const words = 'one two three four five six seven eight nine ten eleven twelve thirteen fourteen';
+    const result = computeTextDiff(paragraphs(`Alpha ${words} omega.`), paragraphs(`Beta ${words} omega.`));
+    const [chunk] = result.chunks;
+    assert.deepEqual(chunk.redline?.map(span => span.type), ['deleted', 'inserted', 'same']);
+    assert.equal(chunk.redline?.[2].text, ' one two three four five six …');
+  });
+
+  it('reports a moved section once, with where it moved from and to', () => {
+    const result = computeTextDiff(
+      paragraphs('# Scope', 'This policy covers all staff and contractors.', '# Retention', 'Records are kept in the archive system for audits.', '# Contacts', 'Questions go to the compliance team by email.'),
+      paragraphs('# Scope', 'This policy covers all staff and contractors.', '# Contacts', 'Questions go to the compliance team by email.', '# Retention', 'Records are kept in the archive system for audits.')
+    );
+    assert.deepEqual(result.summary, { added: 0, removed: 0, modified: 0, moved: 2 });
+    assert.equal(result.chunks.length, 1);
+    const [chunk] = result.chunks;
+    assert.equal(chunk.type, 'moved');
+    assert.equal(chunk.movedSection, 'Retention');
+    assert.equal(chunk.fromSection, 'Scope');
+    assert.equal(chunk.toSection, 'Contacts');
+    assert.equal(chunk.edited, false);
+  });
+
+  it('locates each edited paragraph of a moved block in its own section', () => {
+    const result = computeTextDiff(
+      paragraphs('# Intro', 'Welcome text here.', '# Retention', 'Records are kept for 30 days in the archive.', '## Backups', 'Backups should be kept for 90 days offsite by the team.', '# Other', 'Other text stays the same here.'),
+      paragraphs('# Intro', 'Welcome text here.', '# Other', 'Other text stays the same here.', '# Retention', 'Records are kept for 14 days in the archive.', '## Backups', 'Backups must be kept for 60 days offsite by the team.')
+    );
+    const [chunk] = result.chunks;
+    assert.equal(chunk.type, 'moved');
+    assert.equal(chunk.edited, true);
+    assert.deepEqual(
+      chunk.thresholdChanges?.map(change => [change.description, change.location]),
+      [['Duration decreased from 30 days to 14 days', 'Retention'], ['Duration decreased from 90 days to 60 days', 'Backups']]
+    );
+    assert.deepEqual(chunk.modalityChanges?.map(change => change.location), ['Backups']);
+  });
+
+  it('tells a reorder from an edit', () => {
+    assert.equal(isReorderOnly(paragraphs('A.', 'B.', 'C.'), paragraphs('C.', 'A.', 'B.')), true);
+    assert.equal(isReorderOnly(paragraphs('A.', 'B.'), paragraphs('A.', 'B.')), false);
+    assert.equal(isReorderOnly(paragraphs('A.', 'B.'), paragraphs('B.', 'A.', 'A.')), false);
+  });
+});
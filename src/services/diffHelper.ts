@@ -1,9 +1,31 @@
+import { Modality, RedlineSpan } from '../types';
+import { LocationMarker, parseLocationMarker, stripLocationMarkers, describeLocationMarker } from './locationMarkers';
+import { similarity, wordCounts, wordTotal } from './textSimilarity';
+import { SectionChange, diffSectionTrees, headingLabel, parseHeading, parseSectionTree } from './sectionTree';
+import { ThresholdChange, compareThresholds } from './thresholds';
+import { ModalityChange, classifyModality, compareModality, splitSentences } from './modality';
+
 export interface DiffChunk {
-  type: 'added' | 'removed' | 'modified';
+  type: 'added' | 'removed' | 'modified' | 'moved';
   before: string | null;
   after: string | null;
   location: string | null;
   lineNumber?: number;
+  // Moved paragraphs: the headings of the sections they left and joined, and whether the
+  // wording changed too. A moved block that starts with its own heading is a whole section,
+  // named by `movedSection`; it moved from after `fromSection` to after `toSection`.
+  movedSection?: string | null;
+  fromSection?: string | null;
+  toSection?: string | null;
+  edited?: boolean;
+  // Modified and edited moved paragraphs: the word-level redline and the runs of words it inserts and deletes
+  redline?: RedlineSpan[];
+  inserted?: string[];
+  deleted?: string[];
+  // Numbers, durations, amounts and dates that changed within the paragraph
+  thresholdChanges?: ThresholdChange[];
+  // Sentences whose modality changed, e.g. "should" to "must"
+  modalityChanges?: ModalityChange[];
 }
 
 export interface DiffResult {
@@ -11,12 +33,23 @@ export interface DiffResult {
   summary: {
     added: number;
     removed: number;
+    // Edited moves count as both moved and modified
     modified: number;
+    moved: number;
   };
   highRiskPhrases: string[];
   hasHighRiskChanges: boolean;
   isProcedural: boolean;
   requirements: RequirementStatement[];
+  // Sections added, removed, renamed or changed, from the documents' heading trees
+  sectionChanges: SectionChange[];
+  // Changed numbers from every modified paragraph, including those beyond `maxChunks`
+  thresholdChanges: ThresholdChange[];
+  // Changed modalities from every modified paragraph, like `thresholdChanges`
+  modalityChanges: ModalityChange[];
+  // Set when the paragraph diff ran out of time: chunks are one per changed section, and the
+  // counts are paragraphs found in only one version
+  fallback?: 'section-summary';
 }
 
 const HIGH_RISK_PHRASES = [
@@ -26,12 +59,6 @@ const HIGH_RISK_PHRASES = [
   'terminate', 'penalty', 'fine', 'lawsuit', 'liability', 'waive', 'forfeit'
 ];
 
-const OBLIGATION_VERBS = [
-  'must', 'shall', 'required', 'need to', 'needs to', 'have to', 'has to',
-  'will be required', 'is required', 'are required', 'mandatory', 'obligated',
-  'responsible for', 'expected to', 'ensure', 'ensure that'
-];
-
 const SYSTEM_KEYWORDS = [
   'system', 'software', 'platform', 'tool', 'application', 'database',
   'electronic', 'digital', 'online', 'portal', 'Google Drive', 'SharePoint',
@@ -56,31 +83,79 @@ export interface RequirementStatement {
   appliesTo: string | null;
   location: string | null;
   isNew: boolean;
+  // Whether the sentence obliges, prohibits, permits or recommends; null for a plain statement
+  modality: Modality | null;
+  // Set for a reworded sentence whose modality changed; such a requirement is not new
+  modalityChange?: ModalityChange;
 }
 
 function splitIntoParagraphs(text: string): string[] {
-  return text
+  return stripLocationMarkers(text)
     .split(/\n\s*\n/)
     .map(p => p.trim())
     .filter(p => p.length > 0);
 }
 
+// Heading lines and where they start. Every chunk of a diff looks up its heading in the same
+// document, so the last document's headings are kept.
+let headingIndex: { text: string; headings: Array<{ offset: number; label: string }> } | null = null;
+
+function headingsOf(text: string): Array<{ offset: number; label: string }> {
+  if (headingIndex?.text === text) return headingIndex.headings;
+  const headings: Array<{ offset: number; label: string }> = [];
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const heading = parseLocationMarker(line) ? null : parseHeading(line);
+    if (heading) headings.push({ offset, label: headingLabel(heading) });
+    offset += line.length + 1;
+  }
+  headingIndex = { text, headings };
+  return headings;
+}
+
 function findNearestHeading(text: string, position: number): string | null {
-  const beforeText = text.substring(0, position);
-  const lines = beforeText.split('\n');
-  
+  const headings = headingsOf(text);
+  // The last heading line that starts before the position
+  let low = 0;
+  let high = headings.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (headings[middle].offset < position) low = middle + 1;
+    else high = middle;
+  }
+  return low > 0 ? headings[low - 1].label : null;
+}
+
+function findNearestMarker(
+  text: string,
+  position: number
+): { marker: LocationMarker; description: string; offset: number } | null {
+  const lines = text.substring(0, position).split('\n');
+
   for (let i = lines.length - 1; i >= 0; i--) {
-    const line = lines[i].trim();
-    if (line.length > 0 && line.length < 100) {
-      if (/^[A-Z0-9]/.test(line) && 
-          (line.endsWith(':') || /^[A-Z][A-Z\s]+$/.test(line) || /^\d+\./.test(line) || /^#{1,3}\s/.test(line))) {
-        return line.replace(/^#+\s*/, '').replace(/:$/, '');
-      }
+    const marker = parseLocationMarker(lines[i]);
+    if (marker) {
+      const paragraphsBefore = splitIntoParagraphs(lines.slice(i + 1).join('\n')).length;
+      const offset = lines.slice(0, i).join('\n').length;
+      return { marker, description: describeLocationMarker(marker, paragraphsBefore + 1), offset };
     }
   }
   return null;
 }
 
+function findLocation(text: string, position: number): string | null {
+  const nearest = findNearestMarker(text, position);
+  // Spreadsheet rows have no headings; the tab and row number are the location
+  if (nearest?.marker.kind === 'sheet') return nearest.description;
+
+  // A slide title only applies to its own slide, while sections can span pages
+  const heading = nearest?.marker.kind === 'slide'
+    ? findNearestHeading(text.substring(nearest.offset), position - nearest.offset)
+    : findNearestHeading(text, position);
+  if (heading && nearest) return `${heading} (${nearest.description})`;
+  return heading || nearest?.description || null;
+}
+
 function detectHighRiskPhrases(text: string): string[] {
   const found: string[] = [];
   const lowerText = text.toLowerCase();
@@ -155,20 +230,15 @@ function categorizeRequirement(text: string): RequirementStatement['category'] {
   return 'obligation';
 }
 
-function containsObligationVerb(text: string): boolean {
-  const lowerText = text.toLowerCase();
-  return OBLIGATION_VERBS.some(verb => lowerText.includes(verb));
-}
-
 function containsSystemKeyword(text: string): boolean {
   const lowerText = text.toLowerCase();
   return SYSTEM_KEYWORDS.some(kw => lowerText.includes(kw));
 }
 
 function extractRequirementSentences(text: string): string[] {
-  const sentences = text.split(/(?<=[.!?])\s+/);
+  const sentences = splitSentences(text);
   return sentences.filter(s => 
-    containsObligationVerb(s) || 
+    classifyModality(s) !== null || 
     containsSystemKeyword(s) ||
     TRAINING_KEYWORDS.some(kw => s.toLowerCase().includes(kw)) ||
     STORAGE_KEYWORDS.some(kw => s.toLowerCase().includes(kw))
@@ -194,18 +264,23 @@ export function extractRequirementsFromChunks(
           appliesTo: extractAppliesTo(sentence),
           location: chunk.location,
           isNew: true,
+          modality: classifyModality(sentence)?.modality ?? null,
         });
       }
-    } else if (chunk.type === 'modified' && chunk.after) {
+    } else if ((chunk.type === 'modified' || chunk.type === 'moved') && chunk.after) {
       const afterSentences = extractRequirementSentences(chunk.after);
       const beforeSentences = chunk.before ? extractRequirementSentences(chunk.before) : [];
       
+      const modalityChanges = [...(chunk.modalityChanges || [])];
+      
       for (const sentence of afterSentences) {
         const wasInBefore = beforeSentences.some(bs => 
           bs.toLowerCase().trim() === sentence.toLowerCase().trim()
         );
         
         if (!wasInBefore) {
+          const changeIndex = modalityChanges.findIndex(change => change.after === sentence);
+          const modalityChange = changeIndex === -1 ? undefined : modalityChanges.splice(changeIndex, 1)[0];
           requirements.push({
             text: sentence,
             beforeText: chunk.before,
@@ -213,108 +288,591 @@ export function extractRequirementsFromChunks(
             category: categorizeRequirement(sentence),
             appliesTo: extractAppliesTo(sentence),
             location: chunk.location,
-            isNew: true,
+            isNew: !modalityChange,
+            modality: classifyModality(sentence)?.modality ?? null,
+            modalityChange,
           });
         }
       }
+      
+      // A sentence that lost its "must" is no longer a requirement sentence, but the change is
+      for (const modalityChange of modalityChanges) {
+        requirements.push({
+          text: modalityChange.after,
+          beforeText: chunk.before,
+          afterText: chunk.after,
+          category: categorizeRequirement(modalityChange.before),
+          appliesTo: extractAppliesTo(modalityChange.before),
+          location: chunk.location,
+          isNew: false,
+          modality: modalityChange.to,
+          modalityChange,
+        });
+      }
     }
   }
   
   return requirements;
 }
 
-function computeLCSMatrix(a: string[], b: string[]): number[][] {
-  const m = a.length;
-  const n = b.length;
-  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-  
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (a[i - 1] === b[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1] + 1;
-      } else {
-        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
+type DiffOp = { type: 'same' | 'removed' | 'added'; value: string; indexA?: number; indexB?: number };
+
+// Paragraph diffs run on the server's event loop, so they get a time budget rather than running
+// for as long as a huge rewrite needs
+const DIFF_TIME_BUDGET_MS = parseInt(process.env.DIFF_TIME_BUDGET_MS || '500', 10);
+
+class DiffBudgetExceededError extends Error {}
+
+// Myers' O((N+M)·D) diff in linear space: each step finds where the forward and backward searches
+// meet (the middle snake) and recurses on both halves. Paragraphs are compared as interned IDs.
+function myersDiff(a: string[], b: string[], deadline: number): DiffOp[] {
+  const ids = new Map<string, number>();
+  const intern = (value: string) => {
+    let id = ids.get(value);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(value, id);
+    }
+    return id;
+  };
+  const idsA = Int32Array.from(a, intern);
+  const idsB = Int32Array.from(b, intern);
+  const ops: DiffOp[] = [];
+
+  const diffRange = (aStart: number, aEnd: number, bStart: number, bEnd: number): void => {
+    while (aStart < aEnd && bStart < bEnd && idsA[aStart] === idsB[bStart]) {
+      ops.push({ type: 'same', value: a[aStart], indexA: aStart, indexB: bStart });
+      aStart++;
+      bStart++;
+    }
+    let suffix = 0;
+    while (aEnd > aStart && bEnd > bStart && idsA[aEnd - 1] === idsB[bEnd - 1]) {
+      aEnd--;
+      bEnd--;
+      suffix++;
+    }
+
+    const split = aStart < aEnd && bStart < bEnd
+      ? middleSnake(idsA.subarray(aStart, aEnd), idsB.subarray(bStart, bEnd), deadline)
+      : null;
+    if (split) {
+      diffRange(aStart, aStart + split[0], bStart, bStart + split[1]);
+      diffRange(aStart + split[0], aEnd, bStart + split[1], bEnd);
+    } else {
+      for (let i = aStart; i < aEnd; i++) ops.push({ type: 'removed', value: a[i], indexA: i });
+      for (let j = bStart; j < bEnd; j++) ops.push({ type: 'added', value: b[j], indexB: j });
+    }
+
+    for (let k = 0; k < suffix; k++) {
+      ops.push({ type: 'same', value: a[aEnd + k], indexA: aEnd + k, indexB: bEnd + k });
+    }
+  };
+
+  diffRange(0, a.length, 0, b.length);
+  return groupReplacements(ops);
+}
+
+// Returns where an optimal edit path crosses the middle of the edit graph, or null when the
+// sequences have nothing in common. Both are non-empty and differ in their first and last elements.
+function middleSnake(a: Int32Array, b: Int32Array, deadline: number): [number, number] | null {
+  const n = a.length;
+  const m = b.length;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const forward = new Int32Array(2 * maxD + 2).fill(-1);
+  const backward = new Int32Array(2 * maxD + 2).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet on a forward step, otherwise on a backward one
+  const checkOnForward = delta % 2 !== 0;
+  // Diagonals that ran off the edge of the graph are not searched again
+  let forwardStart = 0, forwardEnd = 0, backwardStart = 0, backwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    if (Date.now() > deadline) throw new DiffBudgetExceededError();
+
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (checkOnForward) {
+        const reverse = offset + delta - k;
+        if (reverse >= 0 && reverse < backward.length && backward[reverse] !== -1 && x >= n - backward[reverse]) {
+          return [x, y];
+        }
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+        ? backward[offset + k + 1]
+        : backward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[n - x - 1] === b[m - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!checkOnForward) {
+        const ahead = offset + delta - k;
+        if (ahead >= 0 && ahead < forward.length && forward[ahead] !== -1) {
+          const forwardX = forward[ahead];
+          if (forwardX >= n - x) return [forwardX, offset + forwardX - ahead];
+        }
       }
     }
   }
-  return dp;
+  return null;
 }
 
-function backtrackDiff(dp: number[][], a: string[], b: string[]): Array<{ type: 'same' | 'removed' | 'added'; value: string; indexA?: number; indexB?: number }> {
-  const result: Array<{ type: 'same' | 'removed' | 'added'; value: string; indexA?: number; indexB?: number }> = [];
-  let i = a.length;
-  let j = b.length;
-  
-  while (i > 0 || j > 0) {
-    if (i > 0 && j > 0 && a[i - 1] === b[j - 1]) {
-      result.unshift({ type: 'same', value: a[i - 1], indexA: i - 1, indexB: j - 1 });
-      i--;
-      j--;
-    } else if (j > 0 && (i === 0 || dp[i][j - 1] >= dp[i - 1][j])) {
-      result.unshift({ type: 'added', value: b[j - 1], indexB: j - 1 });
-      j--;
+// Within each run of edits, removals come before additions
+function groupReplacements(ops: DiffOp[]): DiffOp[] {
+  const grouped: DiffOp[] = [];
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === 'same') {
+      grouped.push(ops[i++]);
+      continue;
+    }
+    const run: DiffOp[] = [];
+    while (i < ops.length && ops[i].type !== 'same') run.push(ops[i++]);
+    grouped.push(...run.filter(op => op.type === 'removed'), ...run.filter(op => op.type === 'added'));
+  }
+  return grouped;
+}
+
+function isHeadingParagraph(paragraph: string): boolean {
+  return parseHeading(paragraph.split('\n')[0]) !== null;
+}
+
+function headingTitle(paragraph: string): string {
+  return headingLabel(parseHeading(paragraph.split('\n')[0])!);
+}
+
+// Paragraphs grouped under the heading that precedes them
+function splitIntoSections(paragraphs: string[]): Array<{ title: string | null; paragraphs: string[] }> {
+  const sections: Array<{ title: string | null; paragraphs: string[] }> = [{ title: null, paragraphs: [] }];
+  for (const paragraph of paragraphs) {
+    if (isHeadingParagraph(paragraph)) {
+      sections.push({ title: headingTitle(paragraph), paragraphs: [] });
+    }
+    sections[sections.length - 1].paragraphs.push(paragraph);
+  }
+  return sections.filter(section => section.paragraphs.length > 0);
+}
+
+// When the paragraph diff runs out of time, paragraphs are only counted: each section gets one
+// chunk for the paragraphs that appear in one version but not the other
+function summarizeSections(prevParagraphs: string[], newParagraphs: string[]): { chunks: DiffChunk[]; added: string[]; removed: string[] } {
+  const counts = new Map<string, number>();
+  for (const paragraph of prevParagraphs) counts.set(paragraph, (counts.get(paragraph) || 0) + 1);
+  for (const paragraph of newParagraphs) counts.set(paragraph, (counts.get(paragraph) || 0) - 1);
+
+  // A paragraph's surplus in one version is attributed to the sections it appears in there
+  const take = (paragraph: string, sign: 1 | -1): boolean => {
+    const count = counts.get(paragraph) || 0;
+    if (count * sign <= 0) return false;
+    counts.set(paragraph, count - sign);
+    return true;
+  };
+  const removedBySection = splitIntoSections(prevParagraphs)
+    .map(section => ({ title: section.title, paragraphs: section.paragraphs.filter(paragraph => take(paragraph, 1)) }));
+  const addedBySection = splitIntoSections(newParagraphs)
+    .map(section => ({ title: section.title, paragraphs: section.paragraphs.filter(paragraph => take(paragraph, -1)) }));
+
+  const chunks: DiffChunk[] = [];
+  const titles = [...new Set([...addedBySection, ...removedBySection].map(section => section.title))];
+  for (const title of titles) {
+    const added = addedBySection.filter(section => section.title === title).flatMap(section => section.paragraphs);
+    const removed = removedBySection.filter(section => section.title === title).flatMap(section => section.paragraphs);
+    if (added.length === 0 && removed.length === 0) continue;
+    // The heading already names the section, so the excerpt is its first body paragraph
+    const excerpt = (paragraphs: string[]) => paragraphs.length > 0
+      ? truncateExcerpt(paragraphs.find(paragraph => !isHeadingParagraph(paragraph)) ?? paragraphs[0])
+      : null;
+    chunks.push({
+      type: added.length > 0 && removed.length > 0 ? 'modified' : added.length > 0 ? 'added' : 'removed',
+      before: excerpt(removed),
+      after: excerpt(added),
+      location: title,
+    });
+  }
+  return {
+    chunks,
+    added: addedBySection.flatMap(section => section.paragraphs),
+    removed: removedBySection.flatMap(section => section.paragraphs),
+  };
+}
+
+// Words and punctuation, each with the whitespace before it; "3.5" and "don't" stay one word
+const WORD_TOKEN = /\s*(?:[\p{L}\p{N}]+(?:['\u2019.,-][\p{L}\p{N}]+)*|\S)/gu;
+
+// Unchanged runs longer than this are shortened to their first and last words
+const REDLINE_CONTEXT_WORDS = 6;
+
+function shortenUnchanged(tokens: string[], isFirst: boolean, isLast: boolean): string {
+  if (tokens.length <= REDLINE_CONTEXT_WORDS * 2) return tokens.join('');
+  const head = isFirst ? '' : tokens.slice(0, REDLINE_CONTEXT_WORDS).join('');
+  const tail = isLast ? '' : tokens.slice(-REDLINE_CONTEXT_WORDS).join('');
+  return `${head} …${tail}`;
+}
+
+// Diffs two versions of a paragraph word by word. Returns null when the budget runs out.
+function computeRedline(
+  before: string,
+  after: string,
+  deadline: number
+): { redline: RedlineSpan[]; inserted: string[]; deleted: string[] } | null {
+  const beforeTokens = before.match(WORD_TOKEN) || [];
+  const afterTokens = after.match(WORD_TOKEN) || [];
+  let ops: DiffOp[];
+  try {
+    ops = myersDiff(beforeTokens.map(token => token.trim()), afterTokens.map(token => token.trim()), deadline);
+  } catch (error) {
+    if (error instanceof DiffBudgetExceededError) return null;
+    throw error;
+  }
+
+  // Consecutive words with the same type form one span
+  const runs: Array<{ type: RedlineSpan['type']; tokens: string[] }> = [];
+  for (const op of ops) {
+    const type = op.type === 'same' ? 'same' : op.type === 'removed' ? 'deleted' : 'inserted';
+    const token = op.type === 'removed' ? beforeTokens[op.indexA!] : afterTokens[op.indexB!];
+    const last = runs[runs.length - 1];
+    if (last && last.type === type) {
+      last.tokens.push(token);
     } else {
-      result.unshift({ type: 'removed', value: a[i - 1], indexA: i - 1 });
-      i--;
+      runs.push({ type, tokens: [token] });
     }
   }
-  return result;
+
+  const redline = runs.map((run, index): RedlineSpan => ({
+    type: run.type,
+    text: run.type === 'same' ? shortenUnchanged(run.tokens, index === 0, index === runs.length - 1) : run.tokens.join(''),
+  }));
+  const textOf = (type: RedlineSpan['type']) =>
+    runs.filter(run => run.type === type).map(run => run.tokens.join('').trim());
+  return { redline, inserted: textOf('inserted'), deleted: textOf('deleted') };
+}
+
+// What a chunk adds to the document: the inserted words of a modified paragraph, or the whole
+// added paragraph. Risk detection looks only at this text.
+export function addedTextOf(chunk: DiffChunk): string | null {
+  if (chunk.type === 'moved' && !chunk.edited) return null;
+  if ((chunk.type === 'modified' || chunk.type === 'moved') && chunk.inserted) return chunk.inserted.join(' ');
+  return chunk.after;
+}
+
+// Paragraphs this similar (by shared words) are the same paragraph, lightly edited
+const MOVE_SIMILARITY = 0.8;
+const MOVE_MIN_WORDS = 5;
+// Near-identical matching compares every removed paragraph with every added one, so it is skipped
+// for edits larger than this
+const MOVE_MAX_COMPARISONS = 20000;
+
+// Pairs removed paragraphs with identical or near-identical added ones elsewhere in the document.
+// Returns the op index of each pair's addition keyed by its removal. Removals and additions in the
+// same run of edits are left alone: a paragraph replaced in place is modified, not moved.
+function findMoves(ops: DiffOp[]): Map<number, number> {
+  const runOf: number[] = [];
+  let run = 0;
+  ops.forEach((op, index) => {
+    if (op.type === 'same') run++;
+    runOf[index] = run;
+  });
+  const removedIndexes = ops.flatMap((op, index) => op.type === 'removed' ? [index] : []);
+  const addedIndexes = ops.flatMap((op, index) => op.type === 'added' ? [index] : []);
+  const moves = new Map<number, number>();
+  const taken = new Set<number>();
+
+  const addedByText = new Map<string, number[]>();
+  for (const index of addedIndexes) {
+    const list = addedByText.get(ops[index].value) || [];
+    list.push(index);
+    addedByText.set(ops[index].value, list);
+  }
+  for (const index of removedIndexes) {
+    const match = (addedByText.get(ops[index].value) || []).find(added => !taken.has(added) && runOf[added] !== runOf[index]);
+    if (match !== undefined) {
+      moves.set(index, match);
+      taken.add(match);
+    }
+  }
+
+  const remainingRemoved = removedIndexes.filter(index => !moves.has(index));
+  const remainingAdded = addedIndexes.filter(index => !taken.has(index));
+  if (remainingRemoved.length * remainingAdded.length > MOVE_MAX_COMPARISONS) return moves;
+  const counts = new Map<number, Map<string, number>>();
+  const countsOf = (index: number) => {
+    let result = counts.get(index);
+    if (!result) {
+      result = wordCounts(ops[index].value);
+      counts.set(index, result);
+    }
+    return result;
+  };
+  const longEnough = (index: number) => wordTotal(countsOf(index)) >= MOVE_MIN_WORDS;
+  for (const index of remainingRemoved.filter(longEnough)) {
+    let best: number | null = null;
+    let bestScore = MOVE_SIMILARITY;
+    for (const added of remainingAdded) {
+      if (taken.has(added) || runOf[added] === runOf[index] || !longEnough(added)) continue;
+      const score = similarity(countsOf(index), countsOf(added));
+      if (score >= bestScore) {
+        best = added;
+        bestScore = score;
+      }
+    }
+    if (best !== null) {
+      moves.set(index, best);
+      taken.add(best);
+    }
+  }
+  return moves;
+}
+
+// A removed paragraph sharing this many words with an added one in its run of edits was rewritten
+const REPLACEMENT_SIMILARITY = 0.5;
+
+// Pairs the paragraphs replaced in place with their new versions; moved paragraphs are left out.
+// Within a run of edits, removals and additions are paired in order when there are as many of
+// each, and otherwise each removal takes the most similar addition. Returns the op index of each
+// pair's addition keyed by its removal.
+function pairReplacements(ops: DiffOp[], moves: Map<number, number>, moveSources: Map<number, number>): Map<number, number> {
+  const replacements = new Map<number, number>();
+  let i = 0;
+  while (i < ops.length) {
+    if (ops[i].type === 'same') {
+      i++;
+      continue;
+    }
+    const removed: number[] = [];
+    const added: number[] = [];
+    for (; i < ops.length && ops[i].type !== 'same'; i++) {
+      if (ops[i].type === 'removed' && !moves.has(i)) removed.push(i);
+      if (ops[i].type === 'added' && !moveSources.has(i)) added.push(i);
+    }
+
+    if (removed.length === added.length) {
+      removed.forEach((index, position) => replacements.set(index, added[position]));
+      continue;
+    }
+    if (removed.length * added.length > MOVE_MAX_COMPARISONS) continue;
+    const addedCounts = added.map(index => wordCounts(ops[index].value));
+    const taken = new Set<number>();
+    for (const index of removed) {
+      const counts = wordCounts(ops[index].value);
+      let best = -1;
+      let bestScore = REPLACEMENT_SIMILARITY;
+      addedCounts.forEach((candidate, position) => {
+        if (taken.has(position)) return;
+        const score = similarity(counts, candidate);
+        if (score >= bestScore) {
+          best = position;
+          bestScore = score;
+        }
+      });
+      if (best === -1) continue;
+      taken.add(best);
+      replacements.set(index, added[best]);
+    }
+  }
+  return replacements;
+}
+
+// A document whose paragraphs were only reordered: the same paragraphs, each as often, in a
+// different order
+export function isReorderOnly(previousContent: string, newContent: string): boolean {
+  const counts = new Map<string, number>();
+  for (const paragraph of splitIntoParagraphs(previousContent)) counts.set(paragraph, (counts.get(paragraph) || 0) + 1);
+  for (const paragraph of splitIntoParagraphs(newContent)) counts.set(paragraph, (counts.get(paragraph) || 0) - 1);
+  return [...counts.values()].every(count => count === 0) &&
+    splitIntoParagraphs(previousContent).join('\n\n') !== splitIntoParagraphs(newContent).join('\n\n');
+}
+
+function computeSectionSummary(prevParagraphs: string[], newParagraphs: string[], maxChunks: number): DiffResult {
+  const { chunks, added, removed } = summarizeSections(prevParagraphs, newParagraphs);
+  const highRiskPhrases = [...new Set(added.flatMap(detectHighRiskPhrases))];
+  const prioritizedChunks = chunks
+    .sort((a, b) => Number(!!b.after && detectHighRiskPhrases(b.after).length > 0) - Number(!!a.after && detectHighRiskPhrases(a.after).length > 0))
+    .slice(0, maxChunks);
+  return {
+    chunks: prioritizedChunks,
+    summary: { added: added.length, removed: removed.length, modified: 0, moved: 0 },
+    highRiskPhrases,
+    hasHighRiskChanges: highRiskPhrases.length > 0,
+    isProcedural: false,
+    requirements: extractRequirementsFromChunks(prioritizedChunks, prevParagraphs.join('\n\n'), newParagraphs.join('\n\n')),
+    sectionChanges: diffSectionTrees(parseSectionTree(prevParagraphs.join('\n\n')), parseSectionTree(newParagraphs.join('\n\n'))),
+    // Without paired paragraphs there is nothing to compare numbers between
+    thresholdChanges: [],
+    modalityChanges: [],
+    fallback: 'section-summary',
+  };
 }
 
 export function computeTextDiff(previousContent: string, newContent: string, maxChunks: number = 8): DiffResult {
   const prevParagraphs = splitIntoParagraphs(previousContent);
   const newParagraphs = splitIntoParagraphs(newContent);
   
-  const dp = computeLCSMatrix(prevParagraphs, newParagraphs);
-  const diffOps = backtrackDiff(dp, prevParagraphs, newParagraphs);
+  let diffOps: DiffOp[];
+  try {
+    diffOps = myersDiff(prevParagraphs, newParagraphs, Date.now() + DIFF_TIME_BUDGET_MS);
+  } catch (error) {
+    if (!(error instanceof DiffBudgetExceededError)) throw error;
+    console.warn(`  ⚠️  Too many changes to diff ${prevParagraphs.length} -> ${newParagraphs.length} paragraphs within ${DIFF_TIME_BUDGET_MS}ms; showing a section summary`);
+    return computeSectionSummary(prevParagraphs, newParagraphs, maxChunks);
+  }
   
   const chunks: DiffChunk[] = [];
   let addedCount = 0;
   let removedCount = 0;
   let modifiedCount = 0;
+  let movedCount = 0;
   const allHighRiskPhrases: string[] = [];
+  const allThresholdChanges: ThresholdChange[] = [];
+  const allModalityChanges: ModalityChange[] = [];
+  const riskyChunks = new Set<DiffChunk>();
+  // Word-level redlines share one budget across all modified paragraphs
+  const redlineDeadline = Date.now() + DIFF_TIME_BUDGET_MS;
+  // A moved paragraph is reported once, where it now is
+  const moves = findMoves(diffOps);
+  const moveSources = new Map([...moves].map(([removed, added]) => [added, removed]));
+  // A rewritten paragraph is reported once, where it was
+  const replacements = pairReplacements(diffOps, moves, moveSources);
+  const replacing = new Set(replacements.values());
   
   let i = 0;
   while (i < diffOps.length) {
     const op = diffOps[i];
     
-    if (op.type === 'same') {
+    if (op.type === 'same' || moves.has(i) || replacing.has(i)) {
       i++;
       continue;
     }
     
-    if (op.type === 'removed' && i + 1 < diffOps.length && diffOps[i + 1].type === 'added') {
-      const before = op.value;
-      const after = diffOps[i + 1].value;
-      const location = findNearestHeading(previousContent, previousContent.indexOf(before));
+    if (op.type === 'added' && moveSources.has(i)) {
+      // Paragraphs that moved together, in the same order, are one block
+      const block = [i];
+      while (block[block.length - 1] + 1 < diffOps.length) {
+        const last = block[block.length - 1];
+        const next = last + 1;
+        if (diffOps[next].type !== 'added' || !moveSources.has(next) ||
+            diffOps[next].indexB !== diffOps[last].indexB! + 1 ||
+            diffOps[moveSources.get(next)!].indexA !== diffOps[moveSources.get(last)!].indexA! + 1) break;
+        block.push(next);
+      }
+      const pairs = block.map(index => ({ before: diffOps[moveSources.get(index)!].value, after: diffOps[index].value }));
+      const edited = pairs.filter(pair => pair.before !== pair.after);
+      const redlines = pairs.map(pair => computeRedline(pair.before, pair.after, redlineDeadline));
+      const redline = redlines.every(result => result !== null) && edited.length > 0
+        ? {
+          redline: redlines.flatMap((result, index) => index > 0 ? [{ type: 'same' as const, text: '\n\n' }, ...result!.redline] : result!.redline),
+          inserted: redlines.flatMap(result => result!.inserted),
+          deleted: redlines.flatMap(result => result!.deleted),
+        }
+        : null;
+
+      const before = pairs.map(pair => pair.before).join('\n\n');
+      const after = pairs.map(pair => pair.after).join('\n\n');
+      const movedSection = isHeadingParagraph(pairs[0].after) ? headingTitle(pairs[0].after) : null;
+      const chunk: DiffChunk = {
+        type: 'moved',
+        before: edited.length > 0 ? truncateExcerpt(before) : null,
+        after: truncateExcerpt(after),
+        location: movedSection || findLocation(newContent, newContent.indexOf(pairs[0].after)),
+        movedSection,
+        fromSection: findNearestHeading(previousContent, previousContent.indexOf(pairs[0].before)),
+        toSection: findNearestHeading(newContent, newContent.indexOf(pairs[0].after)),
+        edited: edited.length > 0,
+        ...redline,
+      };
+      // A block can span sections, so each paragraph's changes are located on their own
+      const locationOf = (pair: { before: string; after: string }) =>
+        pair === pairs[0] ? chunk.location : findLocation(newContent, newContent.indexOf(pair.after));
+      const thresholdChanges = edited.flatMap(pair => compareThresholds(pair.before, pair.after, locationOf(pair)));
+      if (thresholdChanges.length > 0) {
+        chunk.thresholdChanges = thresholdChanges;
+        allThresholdChanges.push(...thresholdChanges);
+      }
+      const modalityChanges = edited.flatMap(pair => compareModality(pair.before, pair.after, locationOf(pair)));
+      if (modalityChanges.length > 0) {
+        chunk.modalityChanges = modalityChanges;
+        allModalityChanges.push(...modalityChanges);
+      }
+      if (edited.length > 0) {
+        const hrPhrases = detectHighRiskPhrases(redline ? redline.inserted.join(' ') : edited.map(pair => pair.after).join('\n\n'));
+        allHighRiskPhrases.push(...hrPhrases);
+        if (hrPhrases.length > 0) riskyChunks.add(chunk);
+        modifiedCount += edited.length;
+      }
       
-      const addedText = after.replace(before, '');
-      const hrPhrases = detectHighRiskPhrases(addedText);
-      allHighRiskPhrases.push(...hrPhrases);
+      chunks.push(chunk);
+      movedCount += block.length;
+      i = block[block.length - 1] + 1;
+    } else if (op.type === 'removed' && replacements.has(i)) {
+      const before = op.value;
+      const after = diffOps[replacements.get(i)!].value;
+      const location = findLocation(previousContent, previousContent.indexOf(before));
       
-      chunks.push({
+      const redline = computeRedline(before, after, redlineDeadline);
+      const chunk: DiffChunk = {
         type: 'modified',
         before: truncateExcerpt(before),
         after: truncateExcerpt(after),
         location,
-      });
+        ...redline,
+      };
+      const thresholdChanges = compareThresholds(before, after, location);
+      if (thresholdChanges.length > 0) {
+        chunk.thresholdChanges = thresholdChanges;
+        allThresholdChanges.push(...thresholdChanges);
+      }
+      const modalityChanges = compareModality(before, after, location);
+      if (modalityChanges.length > 0) {
+        chunk.modalityChanges = modalityChanges;
+        allModalityChanges.push(...modalityChanges);
+      }
+      // Without a redline the whole new paragraph is checked
+      const hrPhrases = detectHighRiskPhrases(redline ? redline.inserted.join(' ') : after);
+      allHighRiskPhrases.push(...hrPhrases);
+      if (hrPhrases.length > 0) riskyChunks.add(chunk);
+      
+      chunks.push(chunk);
       modifiedCount++;
-      i += 2;
+      i++;
     } else if (op.type === 'added') {
-      const location = findNearestHeading(newContent, newContent.indexOf(op.value));
+      const location = findLocation(newContent, newContent.indexOf(op.value));
       const hrPhrases = detectHighRiskPhrases(op.value);
       allHighRiskPhrases.push(...hrPhrases);
-      
-      chunks.push({
+      const chunk: DiffChunk = {
         type: 'added',
         before: null,
         after: truncateExcerpt(op.value),
         location,
-      });
+      };
+      if (hrPhrases.length > 0) riskyChunks.add(chunk);
+      
+      chunks.push(chunk);
       addedCount++;
       i++;
     } else if (op.type === 'removed') {
-      const location = findNearestHeading(previousContent, previousContent.indexOf(op.value));
+      const location = findLocation(previousContent, previousContent.indexOf(op.value));
       
       chunks.push({
         type: 'removed',
@@ -331,13 +889,15 @@ export function computeTextDiff(previousContent: string, newContent: string, max
   
   const uniqueHighRisk = [...new Set(allHighRiskPhrases)];
   
-  const prioritizedChunks = chunks.sort((a, b) => {
-    const aHasRisk = a.after ? detectHighRiskPhrases(a.after).length > 0 : false;
-    const bHasRisk = b.after ? detectHighRiskPhrases(b.after).length > 0 : false;
-    if (aHasRisk && !bHasRisk) return -1;
-    if (!aHasRisk && bHasRisk) return 1;
-    return 0;
-  }).slice(0, maxChunks);
+  // Risky changes first, then tightened deadlines and new obligations, then other changed numbers
+  // and modalities, and paragraphs that only moved last
+  const priority = (chunk: DiffChunk) => {
+    if (riskyChunks.has(chunk)) return 0;
+    if (chunk.thresholdChanges?.some(change => change.tightened) || chunk.modalityChanges?.some(change => change.strengthened)) return 1;
+    if (chunk.thresholdChanges || chunk.modalityChanges) return 2;
+    return chunk.type === 'moved' && !chunk.edited ? 4 : 3;
+  };
+  const prioritizedChunks = chunks.sort((a, b) => priority(a) - priority(b)).slice(0, maxChunks);
   
   const requirements = extractRequirementsFromChunks(prioritizedChunks, previousContent, newContent);
   
@@ -347,11 +907,15 @@ export function computeTextDiff(previousContent: string, newContent: string, max
       added: addedCount,
       removed: removedCount,
       modified: modifiedCount,
+      moved: movedCount,
     },
     highRiskPhrases: uniqueHighRisk,
     hasHighRiskChanges: uniqueHighRisk.length > 0,
     isProcedural: false,
     requirements,
+    sectionChanges: diffSectionTrees(parseSectionTree(previousContent), parseSectionTree(newContent)),
+    thresholdChanges: allThresholdChanges,
+    modalityChanges: allModalityChanges,
   };
 }
 
@@ -0,0 +1,88 @@
+import { SharingPermission, SourceType, SourceUser } from '../types';
+import { googleDriveService } from './googleDrive';
+import { localDirectorySource } from './localDirectory';
+import { gitRepositorySource } from './gitRepository';
+
+export interface SourceFile {
+  // Stable ID within the source: the Drive file ID, or the absolute path for local and git files
+  id: string;
+  name: string;
+  mimeType: string;
+  modifiedTime: string;
+  md5Checksum?: string;
+  // Bytes, when the source knows them (not for native Google files)
+  size?: number;
+  // Parent folder path relative to the root, '' for files directly in the root
+  path?: string;
+  // For sources with history: the revision this file's content is read at
+  revision?: string;
+  // Counter the source bumps on every change to the file (Drive `version`); with an unchanged
+  // modifiedTime it proves the content has not changed
+  version?: string;
+  // Who last changed the file, and who owns it, when the source reports them
+  modifiedBy?: SourceUser;
+  owners?: SourceUser[];
+  // Sharing grants and description, when the source reports them (Drive)
+  permissions?: SharingPermission[];
+  description?: string;
+}
+
+export interface SourceRevision {
+  id: string;
+  // Commits (git) are made deliberately and carry a message; revisions (Drive) are saved
+  // automatically and have an empty one
+  kind: 'commit' | 'revision';
+  author: string;
+  authorEmail?: string;
+  message: string;
+  committedAt: string;
+}
+
+// What changed under a root since a change cursor was issued
+export interface SourceChanges {
+  // Files added or modified under the root
+  changed: SourceFile[];
+  // Files removed, trashed or moved out of the root
+  removedIds: string[];
+  // Cursor to pass on the next call
+  nextCursor: string;
+}
+
+// A place documents are ingested from. The root ID is source-specific:
+// a Drive folder ID or a local directory path.
+export interface DocumentSource {
+  readonly type: SourceType;
+  // Returns why the root cannot be ingested right now, or null when it can
+  checkAvailability(rootId: string): Promise<string | null>;
+  // Sources that walk folders one by one skip those `ignoresFolder` names (by path from the root)
+  listFiles(rootId: string, ignoresFolder?: (folderPath: string) => boolean): Promise<SourceFile[]>;
+  // Raw file bytes; text extraction is done by the content extractor registry
+  fetchContent(file: SourceFile): Promise<Buffer | null>;
+  // Sources with their own history return the revisions that touched the file
+  // after `sinceRevision` (all of them when null), oldest first. Files listed with a `revision`
+  // are replayed commit by commit on every run; others only on a baseline backfill.
+  listRevisions?(file: SourceFile, sinceRevision: string | null): Promise<SourceRevision[]>;
+  // Where a file that is no longer under the root lives now, or null if it was deleted.
+  // Only sources with IDs that survive a move can tell a move apart from a deletion.
+  locateFile?(fileId: string): Promise<{ path: string } | null>;
+  // Sources with a change feed can sync incrementally: take a cursor before a full listing,
+  // then ask only for what changed since it
+  getChangeCursor?(rootId: string): Promise<string>;
+  listChanges?(rootId: string, cursor: string): Promise<SourceChanges>;
+}
+
+const SOURCES: Record<SourceType, DocumentSource> = {
+  google_drive: googleDriveService,
+  local: localDirectorySource,
+  git: gitRepositorySource,
+};
+
+export const SOURCE_TYPES = Object.keys(SOURCES) as SourceType[];
+
+export function getDocumentSource(type: SourceType): DocumentSource {
+  return SOURCES[type];
+}
+
+export function isSourceType(value: unknown): value is SourceType {
+  return typeof value === 'string' && value in SOURCES;
+}
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+import { extractDocxText } from './docxExtractor';
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const run = (text: string) => `<w:r><w:t xml:space="preserve">${text}</w:t></w:r>`;
+const paragraph = (text: string, properties = '') => `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${run(text)}</w:p>`;
+const styled = (text: string, styleId: string) => paragraph(text, `<w:pStyle w:val="${styleId}"/>`);
+const listItem = (text: string, numId: string, level = 0) =>
+  paragraph(text, `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`);
+
+const STYLES = `<w:styles ${W}>
+  <w:style w:styleId="Title"><w:name w:val="Title"/></w:style>
+  <w:style w:styleId="Berschrift2"><w:name w:val="heading 2"/></w:style>
+</w:styles>`;
+
+const level = (ilvl: number, format: string, text: string) =>
+  `<w:lvl w:ilvl="${ilvl}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/></w:lvl>`;
+const NUMBERING = `<w:numbering ${W}>
+  <w:abstractNum w:abstractNumId="0">${level(0, 'decimal', '%1.')}${level(1, 'lowerLetter', '%1.%2)')}</w:abstractNum>
+  <w:abstractNum w:abstractNumId="1">${level(0, 'bullet', '•')}</w:abstractNum>
+  <w:abstractNum w:abstractNumId="2">${level(0, 'upperRoman', '%1.')}</w:abstractNum>
+  <w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+  <w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>
+  <w:num w:numId="3"><w:abstractNumId w:val="2"/></w:num>
+</w:numbering>`;
+
+async function docx(body: string, parts: Record<string, string> = {}): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('word/document.xml', `<w:document ${W}><w:body>${body}</w:body></w:document>`);
+  for (const [path, xml] of Object.entries(parts)) zip.file(path, xml);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('extractDocxText', () => {
+  it('renders headings from style names and IDs as Markdown headings', async () => {
+    const body = styled('Leave Policy', 'Title') + styled('Scope', 'Berschrift2') + styled('Eligibility', 'Heading3') + paragraph('All staff.');
+    const { text } = await extractDocxText(await docx(body, { 'word/styles.xml': STYLES }));
+    assert.equal(text, '# Leave Policy\n\n## Scope\n\n### Eligibility\n\nAll staff.');
+  });
+
+  it('keeps the rendered numbers of list paragraphs', async () => {
+    const body = listItem('Apply', '1') + listItem('Online', '1', 1) + listItem('On paper', '1', 1) + listItem('Wait', '1')
+      + listItem('Note', '2') + listItem('First', '3') + listItem('Second', '3') + listItem('Unknown list', '9');
+    const { text } = await extractDocxText(await docx(body, { 'word/numbering.xml': NUMBERING }));
+    assert.deepEqual(text.split('\n\n'), ['1. Apply', '  1.a) Online', '  1.b) On paper', '2. Wait', '- Note', 'I. First', 'II. Second', 'Unknown list']);
+  });
+
+  it('renders table rows and skips empty ones', async () => {
+    const cell = (text: string) => `<w:tc>${text ? paragraph(text) : '<w:p/>'}</w:tc>`;
+    const body = `<w:tbl><w:tr>${cell('Role')}${cell('Days')}</w:tr><w:tr>${cell('')}${cell('')}</w:tr><w:tr>${cell('Staff')}${cell('25')}</w:tr></w:tbl>`;
+    const { text } = await extractDocxText(await docx(body));
+    assert.equal(text, '| Role | Days |\n\n| Staff | 25 |');
+  });
+
+  it('treats tracked changes as rejected and reports them with comments', async () => {
+    const body = `<w:p>${run('Keep records for ')}`
+      + `<w:del w:author="Ana"><w:r><w:delText>30</w:delText></w:r></w:del>`
+      + `<w:ins w:author="Ana">${run('14')}</w:ins>${run(' days.')}</w:p>`;
+    const comments = `<w:comments ${W}><w:comment w:author="Ben"><w:p>${run('Too short?')}</w:p></w:comment></w:comments>`;
+    const extraction = await extractDocxText(await docx(body, { 'word/comments.xml': comments }));
+    assert.equal(extraction.text, 'Keep records for 30 days.');
+    assert.deepEqual(extraction.annotations, [
+      { type: 'deletion', author: 'Ana', text: '30' },
+      { type: 'insertion', author: 'Ana', text: '14' },
+      { type: 'comment', author: 'Ben', text: 'Too short?' },
+    ]);
+  });
+
+  it('rejects an archive without a document body', async () => {
+    const zip = new JSZip();
+    zip.file('word/styles.xml', STYLES);
+    await assert.rejects(extractDocxText(await zip.generateAsync({ type: 'nodebuffer' })), /missing word\/document\.xml/);
+  });
+});
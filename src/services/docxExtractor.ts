@@ -0,0 +1,296 @@
+import JSZip from 'jszip';
+import { DOMParser } from '@xmldom/xmldom';
+
+// Tracked changes and comments are kept out of the body text and reported here
+export interface DocxAnnotation {
+  type: 'insertion' | 'deletion' | 'comment';
+  author: string | null;
+  text: string;
+}
+
+export interface DocxExtraction {
+  text: string;
+  annotations: DocxAnnotation[];
+}
+
+interface NumberingLevel {
+  format: string;
+  text: string;
+  start: number;
+}
+
+type NumberingDefinitions = Map<string, Map<number, NumberingLevel>>;
+
+const ELEMENT_NODE = 1;
+
+function childElements(node: Node, localName?: string): Element[] {
+  const result: Element[] = [];
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    if (child.nodeType === ELEMENT_NODE && (!localName || (child as Element).localName === localName)) {
+      result.push(child as Element);
+    }
+  }
+  return result;
+}
+
+function firstChild(node: Node, localName: string): Element | null {
+  return childElements(node, localName)[0] || null;
+}
+
+function attr(element: Element | null, localName: string): string | null {
+  if (!element) return null;
+  return element.getAttribute(`w:${localName}`) || element.getAttribute(localName) || null;
+}
+
+async function readXml(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  return new DOMParser().parseFromString(await file.async('string'), 'text/xml');
+}
+
+// Maps style IDs to heading levels using the style names, which are stable across locales
+function parseHeadingStyles(styles: Document | null): Map<string, number> {
+  const levels = new Map<string, number>();
+  if (!styles) return levels;
+
+  for (const style of Array.from(styles.getElementsByTagName('w:style'))) {
+    const styleId = attr(style, 'styleId');
+    const name = attr(firstChild(style, 'name'), 'val');
+    if (!styleId || !name) continue;
+
+    const match = name.match(/^heading\s*(\d)$/i);
+    if (match) levels.set(styleId, parseInt(match[1], 10));
+    else if (/^title$/i.test(name)) levels.set(styleId, 1);
+  }
+  return levels;
+}
+
+function parseNumbering(numbering: Document | null): NumberingDefinitions {
+  const definitions: NumberingDefinitions = new Map();
+  if (!numbering) return definitions;
+
+  const abstractLevels = new Map<string, Map<number, NumberingLevel>>();
+  for (const abstractNum of Array.from(numbering.getElementsByTagName('w:abstractNum'))) {
+    const levels = new Map<number, NumberingLevel>();
+    for (const lvl of childElements(abstractNum, 'lvl')) {
+      levels.set(parseInt(attr(lvl, 'ilvl') || '0', 10), {
+        format: attr(firstChild(lvl, 'numFmt'), 'val') || 'decimal',
+        text: attr(firstChild(lvl, 'lvlText'), 'val') ?? '',
+        start: parseInt(attr(firstChild(lvl, 'start'), 'val') || '1', 10),
+      });
+    }
+    abstractLevels.set(attr(abstractNum, 'abstractNumId') || '', levels);
+  }
+
+  for (const num of Array.from(numbering.getElementsByTagName('w:num'))) {
+    const abstractId = attr(firstChild(num, 'abstractNumId'), 'val');
+    const levels = abstractId ? abstractLevels.get(abstractId) : undefined;
+    if (levels) definitions.set(attr(num, 'numId') || '', levels);
+  }
+  return definitions;
+}
+
+function toRoman(value: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ];
+  let result = '';
+  for (const [amount, numeral] of numerals) {
+    while (value >= amount) {
+      result += numeral;
+      value -= amount;
+    }
+  }
+  return result;
+}
+
+function toLetter(value: number): string {
+  let result = '';
+  while (value > 0) {
+    const remainder = (value - 1) % 26;
+    result = String.fromCharCode(97 + remainder) + result;
+    value = Math.floor((value - 1) / 26);
+  }
+  return result;
+}
+
+function formatCounter(value: number, format: string): string {
+  switch (format) {
+    case 'lowerLetter': return toLetter(value);
+    case 'upperLetter': return toLetter(value).toUpperCase();
+    case 'lowerRoman': return toRoman(value);
+    case 'upperRoman': return toRoman(value).toUpperCase();
+    default: return String(value);
+  }
+}
+
+class DocxTextBuilder {
+  private readonly counters = new Map<string, number[]>();
+  readonly annotations: DocxAnnotation[] = [];
+
+  constructor(
+    private readonly headingStyles: Map<string, number>,
+    private readonly numbering: NumberingDefinitions
+  ) {}
+
+  renderBlocks(container: Node): string[] {
+    const blocks: string[] = [];
+    for (const element of childElements(container)) {
+      if (element.localName === 'p') {
+        const paragraph = this.renderParagraph(element);
+        if (paragraph) blocks.push(paragraph);
+      } else if (element.localName === 'tbl') {
+        blocks.push(...this.renderTable(element));
+      } else if (element.localName === 'sdt') {
+        const content = firstChild(element, 'sdtContent');
+        if (content) blocks.push(...this.renderBlocks(content));
+      }
+    }
+    return blocks;
+  }
+
+  private renderTable(table: Element): string[] {
+    const rows: string[] = [];
+    for (const row of childElements(table, 'tr')) {
+      const cells = childElements(row, 'tc').map(cell =>
+        this.renderBlocks(cell).join(' ').replace(/\s+/g, ' ').trim()
+      );
+      if (cells.some(cell => cell.length > 0)) {
+        rows.push(`| ${cells.join(' | ')} |`);
+      }
+    }
+    return rows;
+  }
+
+  private renderParagraph(paragraph: Element): string {
+    const text = this.collectRunText(paragraph).trim();
+    if (!text) return '';
+
+    const properties = firstChild(paragraph, 'pPr');
+    const styleId = attr(firstChild(properties || paragraph, 'pStyle'), 'val');
+    const headingLevel = styleId ? this.headingStyles.get(styleId) ?? this.headingLevelFromId(styleId) : null;
+    if (headingLevel) {
+      return `${'#'.repeat(Math.min(headingLevel, 6))} ${text}`;
+    }
+
+    const numPr = properties ? firstChild(properties, 'numPr') : null;
+    if (numPr) {
+      const numId = attr(firstChild(numPr, 'numId'), 'val');
+      const level = parseInt(attr(firstChild(numPr, 'ilvl'), 'val') || '0', 10);
+      const label = numId ? this.nextListLabel(numId, level) : null;
+      if (label !== null) {
+        const indent = '  '.repeat(level);
+        return label ? `${indent}${label} ${text}` : `${indent}${text}`;
+      }
+    }
+
+    return text;
+  }
+
+  private headingLevelFromId(styleId: string): number | null {
+    const match = styleId.match(/^heading(\d)$/i);
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  // Returns the rendered list label ("3.", "1.2.", "-") or null when the list is unknown
+  private nextListLabel(numId: string, level: number): string | null {
+    const levels = this.numbering.get(numId);
+    if (!levels || numId === '0') return null;
+
+    const counters = this.counters.get(numId) || [];
+    for (let i = 0; i < level; i++) {
+      if (counters[i] === undefined) counters[i] = levels.get(i)?.start ?? 1;
+    }
+    counters[level] = counters[level] === undefined ? levels.get(level)?.start ?? 1 : counters[level] + 1;
+    counters.length = level + 1;
+    this.counters.set(numId, counters);
+
+    const definition = levels.get(level);
+    if (!definition || definition.format === 'none') return '';
+    if (definition.format === 'bullet') return '-';
+
+    return definition.text.replace(/%(\d)/g, (_, n: string) => {
+      const index = parseInt(n, 10) - 1;
+      return formatCounter(counters[index] ?? 1, levels.get(index)?.format || 'decimal');
+    });
+  }
+
+  private collectRunText(node: Node): string {
+    let text = '';
+    for (const element of childElements(node)) {
+      switch (element.localName) {
+        case 't':
+        case 'delText':
+          text += element.textContent || '';
+          break;
+        case 'tab':
+          text += '\t';
+          break;
+        case 'br':
+        case 'cr':
+          text += '\n';
+          break;
+        case 'ins':
+        case 'moveTo':
+          this.annotations.push({
+            type: 'insertion',
+            author: attr(element, 'author'),
+            text: this.collectRunText(element),
+          });
+          break;
+        case 'del':
+        case 'moveFrom':
+          // Deleted text stays in the body until the change is accepted
+          const deleted = this.collectRunText(element);
+          this.annotations.push({ type: 'deletion', author: attr(element, 'author'), text: deleted });
+          text += deleted;
+          break;
+        case 'pPr':
+        case 'rPr':
+        case 'instrText':
+        case 'fldData':
+          break;
+        default:
+          text += this.collectRunText(element);
+      }
+    }
+    return text;
+  }
+}
+
+function collectComments(comments: Document | null): DocxAnnotation[] {
+  if (!comments) return [];
+  return Array.from(comments.getElementsByTagName('w:comment')).map(comment => ({
+    type: 'comment' as const,
+    author: attr(comment, 'author'),
+    text: Array.from(comment.getElementsByTagName('w:t')).map(t => t.textContent || '').join(''),
+  }));
+}
+
+// Extracts the document body as text that keeps its structure: headings become
+// Markdown "#" lines, numbered paragraphs keep their rendered numbers and table
+// rows become "| a | b |" lines. Pending tracked changes are treated as rejected.
+export async function extractDocxText(data: Buffer): Promise<DocxExtraction> {
+  const zip = await JSZip.loadAsync(data);
+  const document = await readXml(zip, 'word/document.xml');
+  if (!document) {
+    throw new Error('DOCX is missing word/document.xml');
+  }
+
+  const builder = new DocxTextBuilder(
+    parseHeadingStyles(await readXml(zip, 'word/styles.xml')),
+    parseNumbering(await readXml(zip, 'word/numbering.xml'))
+  );
+
+  const body = document.getElementsByTagName('w:body')[0];
+  const blocks = body ? builder.renderBlocks(body) : [];
+
+  return {
+    text: blocks.join('\n\n'),
+    annotations: [
+      ...builder.annotations.filter(annotation => annotation.text.trim().length > 0),
+      ...collectComments(await readXml(zip, 'word/comments.xml')),
+    ],
+  };
+}
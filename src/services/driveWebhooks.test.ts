@@ -0,0 +1,174 @@
+import { describe, it, before, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../db';
+import { googleDriveService } from './googleDrive';
+import { DriveWatchChannel, MonitoredFolder } from '../types';
+
+type DriveWebhookService = typeof import('./driveWebhooks')['driveWebhookService'];
+
+const folder = (id: string, rootId: string): MonitoredFolder => ({
+  id,
+  name: id,
+  sourceType: 'google_drive',
+  rootId,
+  owner: null,
+  notificationEmails: [],
+  notifyMinSeverity: 'medium',
+  scheduleEnabled: false,
+  intervalMinutes: 60,
+  fileRules: {},
+  normalization: null,
+  lastRun: null,
+  nextRun: null,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+// Lets the promise chains started by a timer or a request run to completion
+const settle = () => new Promise(resolve => setImmediate(resolve)).then(() => new Promise(resolve => setImmediate(resolve)));
+
+describe('DriveWebhookService', () => {
+  let service: DriveWebhookService;
+  let channels: DriveWatchChannel[];
+  let folders: MonitoredFolder[];
+
+  before(async () => {
+    // Read when the module loads; push notifications are off without it
+    process.env.DRIVE_WEBHOOK_URL = 'https://example.test/webhooks/drive';
+    ({ driveWebhookService: service } = await import('./driveWebhooks'));
+  });
+
+  beforeEach(() => {
+    channels = [{
+      id: 'channel-1',
+      resourceId: 'resource-1',
+      token: 'secret-token',
+      pageToken: 'T0',
+      expiration: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+      createdAt: new Date().toISOString(),
+    }];
+    folders = [folder('policies', 'root-a'), folder('handbook', 'root-b'), folder('new', 'root-c')];
+
+    mock.method(console, 'log', () => {});
+    mock.method(db, 'getWatchChannel', async (id: string) => channels.find(channel => channel.id === id) ?? null);
+    mock.method(db, 'getWatchChannels', async () => [...channels].reverse());
+    mock.method(db, 'createWatchChannel', async (channel: DriveWatchChannel) => { channels.push(channel); });
+    mock.method(db, 'deleteWatchChannel', async (id: string) => { channels = channels.filter(channel => channel.id !== id); });
+    mock.method(db, 'updateWatchChannelPageToken', async (id: string, pageToken: string) => {
+      channels.find(channel => channel.id === id)!.pageToken = pageToken;
+    });
+    mock.method(db, 'getMonitoredFolders', async () => folders);
+    mock.method(db, 'getMonitoredFolder', async (id: string) => folders.find(candidate => candidate.id === id) ?? null);
+    // The third folder has not had its first full run
+    mock.method(db, 'getSyncCursor', async (_sourceType: string, rootId: string) =>
+      rootId === 'root-c' ? null : { sourceType: 'google_drive', rootId, cursor: 'C', lastFullSyncAt: null, updatedAt: '' });
+    mock.method(db, 'getDocumentBySourceId', async (_sourceType: string, sourceId: string) =>
+      sourceId === 'moved-away' ? { folderId: 'handbook', isDeleted: false } : null);
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    mock.restoreAll();
+  });
+
+  describe('handleNotification', () => {
+    // [case, headers, status, message]
+    const cases: Array<[string, Record<string, string>, number, string]> = [
+      ['a missing channel ID', {}, 400, 'Missing X-Goog-Channel-ID header'],
+      ['an unknown channel', { 'x-goog-channel-id': 'other', 'x-goog-channel-token': 'secret-token' }, 404, 'Unknown channel'],
+      ['a wrong token', { 'x-goog-channel-id': 'channel-1', 'x-goog-channel-token': 'guess' }, 403, 'Invalid channel token'],
+      ['a missing token', { 'x-goog-channel-id': 'channel-1' }, 403, 'Invalid channel token'],
+      ['the sync message', { 'x-goog-channel-id': 'channel-1', 'x-goog-channel-token': 'secret-token', 'x-goog-resource-state': 'sync' }, 200, 'Channel confirmed'],
+      ['a change', { 'x-goog-channel-id': 'channel-1', 'x-goog-channel-token': 'secret-token', 'x-goog-resource-state': 'change' }, 200, 'Change scan scheduled'],
+    ];
+    for (const [name, headers, status, message] of cases) {
+      it(`answers ${name} with ${status}`, async () => {
+        mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+        mock.method(console, 'warn', () => {});
+        mock.method(googleDriveService, 'listChangesByRoot', async () => ({ changes: [], nextCursor: 'T0' }));
+        assert.deepEqual(await service.handleNotification(headers), { status, message });
+        // Let a scheduled scan finish so it does not carry over into the next test
+        mock.timers.tick(30_000);
+        await settle();
+      });
+    }
+  });
+
+  describe('change scans', () => {
+    const notify = () => service.handleNotification({
+      'x-goog-channel-id': 'channel-1',
+      'x-goog-channel-token': 'secret-token',
+      'x-goog-resource-state': 'change',
+    });
+
+    it('coalesces a burst of notifications into one scan and triggers incremental runs of the affected folders', async () => {
+      mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+      const listChanges = mock.method(googleDriveService, 'listChangesByRoot', async () => ({
+        changes: [
+          { fileId: 'edited', rootIds: ['root-a'] },
+          { fileId: 'moved-away', rootIds: [] },
+          { fileId: 'unborn', rootIds: ['root-c'] },
+        ],
+        nextCursor: 'T1',
+      }));
+      const runs: Array<[string, unknown]> = [];
+      service.setIngestionCallback(async (_runId, runFolder, options) => { runs.push([runFolder.id, options]); });
+
+      await notify();
+      mock.timers.tick(10_000);
+      await notify();
+      mock.timers.tick(10_000);
+      await notify();
+      mock.timers.tick(29_000);
+      await settle();
+      assert.equal(listChanges.mock.callCount(), 0);
+
+      mock.timers.tick(1_000);
+      await settle();
+      assert.equal(listChanges.mock.callCount(), 1);
+      assert.deepEqual(listChanges.mock.calls[0].arguments, ['T0', ['root-a', 'root-b', 'root-c']]);
+      assert.deepEqual(runs.sort(), [['handbook', { incrementalOnly: true }], ['policies', { incrementalOnly: true }]]);
+      assert.equal(channels[0].pageToken, 'T1');
+    });
+
+    it('scans a steady stream of notifications at least every five minutes', async () => {
+      mock.timers.enable({ apis: ['setTimeout', 'Date'] });
+      const listChanges = mock.method(googleDriveService, 'listChangesByRoot', async () => ({ changes: [], nextCursor: 'T1' }));
+
+      for (let elapsed = 0; elapsed < 5 * 60 * 1000; elapsed += 20_000) {
+        await notify();
+        mock.timers.tick(20_000);
+        await settle();
+      }
+      assert.equal(listChanges.mock.callCount(), 1);
+    });
+  });
+
+  describe('renewSubscriptions', () => {
+    it('runs one renewal at a time, so concurrent calls create one channel', async () => {
+      channels[0].expiration = new Date(Date.now() + 60 * 1000).toISOString();
+      mock.method(googleDriveService, 'checkAvailability', async () => null);
+      mock.method(googleDriveService, 'stopChannel', async () => {});
+      const watch = mock.method(googleDriveService, 'watchChanges', async () => {
+        await settle();
+        return { resourceId: 'resource-2', expiration: Date.now() + 24 * 60 * 60 * 1000 };
+      });
+
+      await Promise.all([service.renewSubscriptions(), service.renewSubscriptions(), service.renewSubscriptions()]);
+
+      assert.equal(watch.mock.callCount(), 1);
+      assert.equal(channels.length, 1);
+      assert.equal(channels[0].resourceId, 'resource-2');
+      // The new channel reads on from where the old one stopped
+      assert.equal(channels[0].pageToken, 'T0');
+    });
+
+    it('stops the channel once no Drive folder is monitored', async () => {
+      folders = [];
+      const stop = mock.method(googleDriveService, 'stopChannel', async () => {});
+      await service.renewSubscriptions();
+      assert.equal(stop.mock.callCount(), 1);
+      assert.deepEqual(channels, []);
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { googleDriveService } from './googleDrive';
+import { isFolderIngesting } from './ingestion';
+import { IngestionCallback } from './scheduler';
+import { v4 as uuidv4 } from 'uuid';
+import { DriveWatchChannel, MonitoredFolder } from '../types';
+
+// Public HTTPS address of /webhooks/drive; push notifications are disabled when unset
+const WEBHOOK_URL = process.env.DRIVE_WEBHOOK_URL || null;
+// Notifications arriving within this window of each other trigger a single scan of the changes
+const DEBOUNCE_MS = parseInt(process.env.DRIVE_WEBHOOK_DEBOUNCE_SECONDS || '30', 10) * 1000;
+// A steady stream of notifications still triggers a scan at least this often
+const MAX_DEBOUNCE_MS = 5 * 60 * 1000;
+// Drive caps changes.watch channels at one week
+const CHANNEL_TTL_MS = parseInt(process.env.DRIVE_WATCH_TTL_HOURS || '24', 10) * 60 * 60 * 1000;
+const RENEW_BEFORE_EXPIRY_MS = 60 * 60 * 1000;
+const RENEW_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface NotificationResult {
+  status: number;
+  message: string;
+}
+
+interface PendingTrigger {
+  timer: NodeJS.Timeout;
+  firstNotifiedAt: number;
+}
+
+class DriveWebhookService {
+  private ingestionCallback: IngestionCallback | null = null;
+  private renewTimer: NodeJS.Timeout | null = null;
+  // The renewal in progress, and whether another was asked for while it ran
+  private renewal: Promise<void> | null = null;
+  private renewRequested = false;
+  // One channel covers every folder, so notifications are debounced into a single scan of the
+  // change feed; scans run one after another
+  private pendingScan: PendingTrigger | null = null;
+  private scanQueue: Promise<void> = Promise.resolve();
+  // Folders whose triggered run waits for a run already in progress
+  private waitingFolders = new Map<string, NodeJS.Timeout>();
+
+  setIngestionCallback(callback: IngestionCallback): void {
+    this.ingestionCallback = callback;
+  }
+
+  isEnabled(): boolean {
+    return WEBHOOK_URL !== null;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.isEnabled()) {
+      console.log('🔔 Drive push notifications disabled (DRIVE_WEBHOOK_URL not set)');
+      return;
+    }
+
+    await this.renewSubscriptions();
+    if (this.renewTimer) clearInterval(this.renewTimer);
+    this.renewTimer = setInterval(() => {
+      this.renewSubscriptions().catch(error => console.error('❌ Drive watch renewal failed:', error));
+    }, RENEW_CHECK_INTERVAL_MS);
+    console.log(`🔔 Drive push notifications enabled: ${WEBHOOK_URL}`);
+  }
+
+  // Called from the renewal timer, folder changes and sign-in. Only one renewal runs at a time;
+  // calls made during one share it and cause one more pass afterwards, so no duplicate channels
+  // are created and no folder change is missed.
+  renewSubscriptions(): Promise<void> {
+    if (!this.isEnabled()) return Promise.resolve();
+    if (this.renewal) {
+      this.renewRequested = true;
+      return this.renewal;
+    }
+
+    this.renewal = (async () => {
+      try {
+        do {
+          this.renewRequested = false;
+          await this.renew();
+        } while (this.renewRequested);
+      } finally {
+        this.renewal = null;
+      }
+    })();
+    return this.renewal;
+  }
+
+  // Keeps one live channel for the account while any Drive folder is monitored, replacing it
+  // close to expiry, and stops any other channels
+  private async renew(): Promise<void> {
+    const folders = await this.driveFolders();
+    const [newest, ...older] = await db.getWatchChannels();
+
+    for (const channel of older) {
+      await this.unsubscribe(channel);
+    }
+    if (folders.length === 0) {
+      if (newest) await this.unsubscribe(newest);
+      return;
+    }
+
+    if (newest && Date.parse(newest.expiration) > Date.now() + RENEW_BEFORE_EXPIRY_MS) return;
+    if (await googleDriveService.checkAvailability(folders[0].rootId)) {
+      console.warn('⚠️  Skipping Drive watch renewal: Not authenticated with Google Drive');
+      return;
+    }
+
+    try {
+      // The new channel carries on from where the old one's changes were last read
+      await this.subscribe(newest?.pageToken || (await googleDriveService.getChangeCursor(folders[0].rootId)));
+      // The old channel keeps delivering until the new one is registered
+      if (newest) await this.unsubscribe(newest);
+    } catch (error) {
+      console.error('❌ Failed to watch Drive changes:', error);
+    }
+  }
+
+  private async driveFolders(): Promise<MonitoredFolder[]> {
+    return (await db.getMonitoredFolders()).filter(folder => folder.sourceType === 'google_drive');
+  }
+
+  private async subscribe(pageToken: string): Promise<DriveWatchChannel> {
+    const id = uuidv4();
+    const token = crypto.randomBytes(24).toString('hex');
+    const watch = await googleDriveService.watchChanges(pageToken, {
+      id,
+      token,
+      address: WEBHOOK_URL!,
+      expiration: Date.now() + CHANNEL_TTL_MS,
+    });
+
+    const channel: DriveWatchChannel = {
+      id,
+      resourceId: watch.resourceId,
+      token,
+      pageToken,
+      expiration: new Date(watch.expiration).toISOString(),
+      createdAt: new Date().toISOString(),
+    };
+    await db.createWatchChannel(channel);
+    console.log(`🔔 Watching Drive changes until ${channel.expiration}`);
+    return channel;
+  }
+
+  private async unsubscribe(channel: DriveWatchChannel): Promise<void> {
+    try {
+      await googleDriveService.stopChannel(channel.id, channel.resourceId);
+    } catch (error) {
+      // Drive stops sending once the channel expires, so the row can go regardless
+      console.warn(`⚠️  Could not stop Drive channel ${channel.id}:`, error);
+    }
+    await db.deleteWatchChannel(channel.id);
+  }
+
+  // Validates a notification from its X-Goog-* headers and schedules a scan of the Drive's
+  // changes. Drive only retries on 5xx responses, so bad requests get 4xx.
+  async handleNotification(headers: Record<string, string | string[] | undefined>): Promise<NotificationResult> {
+    const header = (name: string) => {
+      const value = headers[name];
+      return Array.isArray(value) ? value[0] : value;
+    };
+    const channelId = header('x-goog-channel-id');
+    const token = header('x-goog-channel-token') || '';
+    const resourceState = header('x-goog-resource-state');
+
+    if (!channelId) return { status: 400, message: 'Missing X-Goog-Channel-ID header' };
+
+    const channel = await db.getWatchChannel(channelId);
+    if (!channel) return { status: 404, message: 'Unknown channel' };
+    if (!tokensMatch(channel.token, token)) {
+      console.warn(`⚠️  Rejected Drive notification for channel ${channelId}: invalid token`);
+      return { status: 403, message: 'Invalid channel token' };
+    }
+
+    // Drive sends a "sync" message when the channel is created; it carries no changes
+    if (resourceState === 'sync') return { status: 200, message: 'Channel confirmed' };
+
+    this.scheduleScan();
+    return { status: 200, message: 'Change scan scheduled' };
+  }
+
+  // Restarts the debounce timer, unless notifications have kept it waiting too long already
+  private scheduleScan(): void {
+    const now = Date.now();
+    if (this.pendingScan) clearTimeout(this.pendingScan.timer);
+
+    const firstNotifiedAt = this.pendingScan?.firstNotifiedAt ?? now;
+    const delay = Math.max(0, Math.min(DEBOUNCE_MS, firstNotifiedAt + MAX_DEBOUNCE_MS - now));
+    const timer = setTimeout(() => {
+      this.pendingScan = null;
+      this.scanQueue = this.scanQueue
+        .then(() => this.scanChanges())
+        .catch(error => console.error('❌ Drive change scan failed:', error));
+    }, delay);
+    this.pendingScan = { timer, firstNotifiedAt };
+  }
+
+  // Reads the changes since the channel's page token and starts an incremental run of each
+  // folder they touch: folders a changed file is now in, and folders a changed file was in
+  private async scanChanges(): Promise<void> {
+    const [channel] = await db.getWatchChannels();
+    if (!channel) return;
+    const folders = await this.driveFolders();
+
+    const { changes, nextCursor } = await googleDriveService.listChangesByRoot(channel.pageToken, folders.map(folder => folder.rootId));
+    const affected = new Set<string>();
+    for (const change of changes) {
+      for (const folder of folders) {
+        if (change.rootIds.includes(folder.rootId)) affected.add(folder.id);
+      }
+      // A file removed, trashed or moved out of its folder is only known by its document
+      const document = await db.getDocumentBySourceId('google_drive', change.fileId);
+      if (document?.folderId && !document.isDeleted) affected.add(document.folderId);
+    }
+    await db.updateWatchChannelPageToken(channel.id, nextCursor);
+
+    console.log(`🔔 Drive changes: ${changes.length} changed file(s) in ${affected.size} monitored folder(s)`);
+    for (const folderId of affected) {
+      this.triggerIngestion(folderId).catch(console.error);
+    }
+  }
+
+  private async triggerIngestion(folderId: string): Promise<void> {
+    // A run in progress has read the change feed already; this one follows it
+    if (isFolderIngesting(folderId)) {
+      if (!this.waitingFolders.has(folderId)) {
+        this.waitingFolders.set(folderId, setTimeout(() => {
+          this.waitingFolders.delete(folderId);
+          this.triggerIngestion(folderId).catch(console.error);
+        }, DEBOUNCE_MS));
+      }
+      return;
+    }
+
+    const folder = await db.getMonitoredFolder(folderId);
+    if (!folder || !this.ingestionCallback) return;
+
+    // Only an incremental run is targeted; a folder without a cursor waits for its first full run
+    if (!(await db.getSyncCursor(folder.sourceType, folder.rootId))) {
+      console.log(`🔔 Drive changes for "${folder.name}" not ingested: the folder has not had a full run yet`);
+      return;
+    }
+
+    const runId = uuidv4();
+    console.log(`\n🔔 Drive changes for "${folder.name}" triggered ingestion: ${runId}`);
+    try {
+      // The run reads the folder's change feed, so only the affected files are fetched
+      await this.ingestionCallback(runId, folder, { incrementalOnly: true });
+    } catch (error) {
+      console.error(`❌ Ingestion of folder "${folder.name}" failed:`, error);
+    }
+  }
+}
+
+function tokensMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export const driveWebhookService = new DriveWebhookService();
@@ -0,0 +1,126 @@
+import { db } from '../db';
+import { DeterministicExplanationGenerator } from './explanationGenerator';
+import type { IngestionStore } from './ingestion';
+import { ChangeRecord, Document, DocumentUpdate, DocumentVersion, ExplanationInput, IngestionRun, IngestionRunItem, SourceType, SyncCursor } from '../types';
+
+export interface IngestionPreview {
+  run: Pick<IngestionRun, 'status' | 'documentsProcessed' | 'changesDetected' | 'syncMode' | 'filesFetched' | 'filesSkipped' | 'error'>;
+  changeRecords: ChangeRecord[];
+  items: Array<Omit<IngestionRunItem, 'runId'>>;
+}
+
+// Reads through to the database but keeps every write in memory, so a dry run sees its own
+// changes (e.g. a git file's second commit sees the document its first commit created)
+export class DryRunStore implements IngestionStore {
+  private run: Partial<IngestionRun> = {};
+  // Documents read or written during the run, with the run's updates applied
+  private documents = new Map<string, Document>();
+  private versions = new Map<string, DocumentVersion>();
+  private changeRecords: ChangeRecord[] = [];
+  private items: IngestionRunItem[] = [];
+  private explanations: ExplanationInput[] = [];
+
+  // Nothing is written, so there is nothing to roll back
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    return work();
+  }
+
+  async updateIngestionRun(id: string, updates: Partial<IngestionRun>): Promise<void> {
+    Object.assign(this.run, updates);
+  }
+
+  // Orphaned documents are not adopted, so previewing a root that has some reports a baseline
+  async adoptDocumentsForFolder(): Promise<void> {}
+
+  async getDocumentCountForFolder(folderId: string): Promise<number> {
+    return db.getDocumentCountForFolder(folderId);
+  }
+
+  async getSyncCursor(sourceType: SourceType, rootId: string): Promise<SyncCursor | null> {
+    return db.getSyncCursor(sourceType, rootId);
+  }
+
+  async saveSyncCursor(): Promise<void> {}
+
+  async getDocumentBySourceId(sourceType: SourceType, sourceId: string): Promise<Document | null> {
+    for (const document of this.documents.values()) {
+      if (document.sourceType === sourceType && document.sourceId === sourceId) return { ...document };
+    }
+    const stored = await db.getDocumentBySourceId(sourceType, sourceId);
+    if (!stored) return null;
+    this.documents.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  async getActiveDocumentsForFolder(folderId: string): Promise<Document[]> {
+    for (const stored of await db.getActiveDocumentsForFolder(folderId)) {
+      if (!this.documents.has(stored.id)) this.documents.set(stored.id, stored);
+    }
+    return Array.from(this.documents.values())
+      .filter(document => document.folderId === folderId && !document.isDeleted)
+      .map(document => ({ ...document }));
+  }
+
+  async createDocument(document: Document): Promise<void> {
+    this.documents.set(document.id, { ...document });
+  }
+
+  async updateDocument(id: string, updates: DocumentUpdate): Promise<void> {
+    const document = this.documents.get(id);
+    if (!document) return;
+    const { deletedAt, ...fields } = updates;
+    this.documents.set(id, { ...document, ...fields, deletedAt: deletedAt === null ? undefined : deletedAt ?? document.deletedAt });
+  }
+
+  async createDocumentVersion(version: DocumentVersion): Promise<void> {
+    this.versions.set(version.id, version);
+  }
+
+  async getDocumentVersion(id: string): Promise<DocumentVersion | null> {
+    return this.versions.get(id) || db.getDocumentVersion(id);
+  }
+
+  async createChangeRecord(record: ChangeRecord): Promise<void> {
+    this.changeRecords.push(record);
+  }
+
+  async createIngestionRunItem(item: IngestionRunItem): Promise<void> {
+    this.items.push(item);
+  }
+
+  // Explanations are generated deterministically once the run is done; no AI calls are made
+  queueExplanation = (
+    changeRecord: ChangeRecord,
+    documentName?: string,
+    previousContent?: string,
+    newContent?: string
+  ): void => {
+    let reason = {};
+    try {
+      reason = changeRecord.reason ? JSON.parse(changeRecord.reason) : {};
+    } catch {}
+    this.explanations.push({ changeRecord, documentName, previousContent, newContent, reason });
+  };
+
+  async preview(): Promise<IngestionPreview> {
+    const generator = new DeterministicExplanationGenerator();
+    const explained = new Map<string, ChangeRecord>();
+    for (const input of this.explanations) {
+      const output = await generator.generateExplanation(input);
+      explained.set(input.changeRecord.id, {
+        ...input.changeRecord,
+        explanationText: output.text,
+        explanationBullets: JSON.stringify(output.bullets),
+        explanationMeta: JSON.stringify(output.meta),
+        explanationStatus: 'generated',
+      });
+    }
+
+    const { status = 'failed', documentsProcessed = 0, changesDetected = 0, syncMode, filesFetched, filesSkipped, error } = this.run;
+    return {
+      run: { status, documentsProcessed, changesDetected, syncMode, filesFetched, filesSkipped, error },
+      changeRecords: this.changeRecords.map(record => explained.get(record.id) || record),
+      items: this.items.map(({ runId, ...item }) => item),
+    };
+  }
+}
@@ -14,8 +14,11 @@ import {
   computeTextDiffWithContext,
   DiffResult,
   RequirementStatement,
-  detectProceduralDocument
+  detectProceduralDocument,
+  addedTextOf
 } from './diffHelper';
+import { ModalityChange, isBinding } from './modality';
+import { sharingScopeLabel } from './sharing';
 
 export interface IExplanationGenerator {
   generateExplanation(input: ExplanationInput): Promise<ExplanationOutput>;
@@ -116,6 +119,12 @@ export class DeterministicExplanationGenerator implements IExplanationGenerator
           { confidence: 'medium' }
         );
 
+      case 'moved':
+        return this.generateMovedExplanation(reason, documentName);
+
+      case 'metadata':
+        return this.generateMetadataExplanation(reason, documentName);
+
       case 'created':
         return this.generateCreatedExplanation(documentName, newContent);
 
@@ -135,6 +144,94 @@ export class DeterministicExplanationGenerator implements IExplanationGenerator
     }
   }
 
+  protected generateMovedExplanation(reason: ChangeReason, documentName?: string): ExplanationOutput {
+    const name = reason.lastKnownName || documentName || 'Unknown document';
+    const folder = (folderPath?: string) => folderPath ? `/${folderPath}` : 'the top of the folder';
+
+    if (reason.movedOutOfScope) {
+      return createDeterministicExplanation(
+        `Document "${name}" was moved out of the monitored folder to "${reason.newPath || 'the top of the drive'}". It still exists but is no longer tracked.`,
+        {
+          what_changed: [`"${name}" moved from ${folder(reason.oldPath)} to "${reason.newPath || 'the top of the drive'}", outside the monitored folder`],
+          why_it_matters: [
+            'The document was not deleted, but changes to it will no longer be detected',
+            'Moving a document out may mean it was archived or superseded',
+          ],
+          recommended_actions: [
+            'Confirm whether the document is still in effect',
+            'Move it back into the monitored folder if it should still be tracked',
+          ],
+        }
+      );
+    }
+
+    if (reason.movedIntoScope) {
+      return createDeterministicExplanation(
+        `Document "${name}" was moved back into the monitored folder (${folder(reason.newPath)}). Tracking has resumed with its earlier history.`,
+        {
+          what_changed: [`"${name}" is back in the monitored folder at ${folder(reason.newPath)}`],
+          why_it_matters: ['Changes made while the document was outside the folder were not tracked'],
+          recommended_actions: ['Review the current content for changes made while it was out of scope'],
+        }
+      );
+    }
+
+    return createDeterministicExplanation(
+      `Document "${name}" moved from ${folder(reason.oldPath)} to ${folder(reason.newPath)}.`,
+      {
+        what_changed: [`Folder changed from ${folder(reason.oldPath)} to ${folder(reason.newPath)}`],
+        why_it_matters: ['Links or instructions that point to the old location may need updating'],
+        recommended_actions: ['Update references to the document\'s location'],
+      }
+    );
+  }
+
+  protected generateMetadataExplanation(reason: ChangeReason, documentName?: string): ExplanationOutput {
+    const name = documentName || 'Unknown document';
+    const whatChanged: string[] = [];
+    const whyItMatters: string[] = [];
+    const actions: string[] = [];
+    const people = (users?: Array<{ name: string; email?: string }>) =>
+      users && users.length > 0 ? users.map(user => user.email || user.name).join(', ') : 'nobody';
+
+    if (reason.sharing) {
+      const { oldScope, newScope, addedPrincipals, removedPrincipals, widenedExternally } = reason.sharing;
+      if (oldScope !== newScope) {
+        whatChanged.push(`Sharing changed from ${sharingScopeLabel(oldScope)} to ${sharingScopeLabel(newScope)}`);
+      }
+      if (addedPrincipals.length > 0) whatChanged.push(`Access granted to ${addedPrincipals.join(', ')}`);
+      if (removedPrincipals.length > 0) whatChanged.push(`Access removed for ${removedPrincipals.join(', ')}`);
+      if (widenedExternally) {
+        whyItMatters.push('The document can now be opened by people outside the organization');
+        actions.push('Confirm the wider sharing was intended and approved', 'Restrict sharing if the document is internal');
+      } else {
+        whyItMatters.push('A different set of people can now open or edit the document');
+        actions.push('Check that the new access matches who should see the document');
+      }
+    }
+
+    if (reason.newOwners) {
+      whatChanged.push(`Owner changed from ${people(reason.oldOwners)} to ${people(reason.newOwners)}`);
+      whyItMatters.push('The new owner controls who can access and change the document');
+      actions.push('Confirm the new owner is responsible for this document');
+    }
+
+    if (reason.oldDescription !== undefined || reason.newDescription !== undefined) {
+      whatChanged.push(reason.newDescription ? `Description changed to "${reason.newDescription}"` : 'Description removed');
+      if (whyItMatters.length === 0) whyItMatters.push('The description may record a change in the document\'s purpose or status');
+      if (actions.length === 0) actions.push('Review the new description');
+    }
+
+    const title = reason.sharing?.widenedExternally
+      ? `⚠️ Document "${name}" is now shared outside the organization.`
+      : `Sharing or ownership details of "${name}" changed. The content is unchanged.`;
+    return createDeterministicExplanation(title, {
+      what_changed: whatChanged,
+      why_it_matters: whyItMatters,
+      recommended_actions: actions,
+    });
+  }
+
   protected generateCreatedExplanation(
     documentName?: string,
     content?: string
@@ -242,6 +339,11 @@ export class DeterministicExplanationGenerator implements IExplanationGenerator
         default:
           operationalImpact = 'A new requirement or obligation has been introduced';
       }
+      if (req.modalityChange) {
+        operationalImpact = isBinding(req.modalityChange.to)
+          ? 'What was optional or recommended is now binding - procedures and training need updating'
+          : 'What was binding now leaves a choice - procedures and training that describe it as required need updating';
+      }
       
       return {
         requirement: req.text,
@@ -251,6 +353,8 @@ export class DeterministicExplanationGenerator implements IExplanationGenerator
         after_excerpt: req.afterText || req.text,
         operational_impact: operationalImpact,
         category: req.category,
+        modality: req.modality,
+        previous_modality: req.modalityChange?.from,
         confidence: req.location ? 'high' : 'medium',
       };
     });
@@ -274,6 +378,13 @@ export class DeterministicExplanationGenerator implements IExplanationGenerator
     if (hasHighRiskChanges) {
       whyMatters.push(`HIGH RISK: Contains compliance language (${highRiskPhrases.slice(0, 3).join(', ')})`);
     }
+    const tightenedDeadlines = diffResult.thresholdChanges.filter(change => change.tightened);
+    for (const change of tightenedDeadlines) {
+      whyMatters.push(`DEADLINE TIGHTENED: ${change.description}`);
+    }
+    for (const req of requirements.filter(req => req.modalityChange && isBinding(req.modalityChange.to))) {
+      whyMatters.push(`REQUIREMENT CHANGED: ${req.modalityChange!.description}`);
+    }
     if (whyMatters.length === 0) {
       whyMatters.push('Procedural requirements have been updated');
     }
@@ -300,17 +411,25 @@ export class DeterministicExplanationGenerator implements IExplanationGenerator
         why_it_matters: whyMatters,
         recommended_actions: recommendedActions,
         new_or_changed_requirements: sopRequirements,
+        section_changes: diffResult.sectionChanges.map(change => change.description),
+        threshold_changes: diffResult.thresholdChanges.map(change => change.description),
+        modality_changes: diffResult.modalityChanges.map(change => change.description),
       },
       {
         confidence: 'high',
         highRiskDetected: hasHighRiskChanges,
         highRiskPhrases: highRiskPhrases,
+        deadlineTightened: tightenedDeadlines.length > 0,
         documentType: 'procedural',
       }
     );
   }
 
   protected describeNewRequirement(req: RequirementStatement): string {
+    if (req.modalityChange) {
+      return `Requirement changed${req.appliesTo ? ` for ${req.appliesTo}` : ''}: ${req.modalityChange.description}`;
+    }
+    
     const categoryDescriptions: Record<string, string> = {
       training: 'New training requirement',
       system: 'New system/tool usage requirement',
@@ -335,7 +454,7 @@ export class DeterministicExplanationGenerator implements IExplanationGenerator
   ): ExplanationOutput {
     const { chunks, summary, highRiskPhrases, hasHighRiskChanges } = diffResult;
     
-    const changeItems: ChangeItem[] = chunks.map(chunk => {
+    const changeItems: ChangeItem[] = chunks.flatMap(chunk => {
       let plainEnglish = '';
       let whyMatters = '';
       let action = '';
@@ -352,6 +471,24 @@ export class DeterministicExplanationGenerator implements IExplanationGenerator
           : 'Content removed from document';
         whyMatters = 'Removed language may indicate deprecated procedures or reduced protections';
         action = 'Verify removal was intentional and update related training';
+      } else if (chunk.type === 'moved') {
+        if (chunk.movedSection) {
+          const position = (section: string | null | undefined) => section ? `after "${section}"` : 'the start of the document';
+          plainEnglish = `"${chunk.movedSection}" section moved from ${position(chunk.fromSection)} to ${position(chunk.toSection)}`;
+        } else {
+          const section = (heading: string | null | undefined) => heading ? `"${heading}"` : 'the start of the document';
+          plainEnglish = chunk.fromSection === chunk.toSection
+            ? `Content reordered within ${section(chunk.toSection)}`
+            : `Content moved from ${section(chunk.fromSection)} to ${section(chunk.toSection)}`;
+        }
+        if (chunk.edited) {
+          plainEnglish += ' and reworded';
+          whyMatters = 'The moved text was also reworded, which may change requirements';
+          action = 'Compare before and after text to understand the change';
+        } else {
+          whyMatters = 'The wording is unchanged; only its position in the document moved';
+          action = 'No action needed unless the order matters (for example, steps in a procedure)';
+        }
       } else {
         plainEnglish = chunk.location
           ? `Content modified in "${chunk.location}" section`
@@ -360,25 +497,53 @@ export class DeterministicExplanationGenerator implements IExplanationGenerator
         action = 'Compare before and after text to understand the change';
       }
 
-      const hrPhrases = chunk.after ? this.detectHighRiskInText(chunk.after) : [];
+      // A changed number is the change itself, so it replaces the generic description
+      const thresholdChanges = chunk.thresholdChanges || [];
+      const tightened = thresholdChanges.some(change => change.tightened);
+      if (thresholdChanges.length > 0) {
+        plainEnglish = thresholdChanges.map(change => change.description).join('; ') +
+          (chunk.location ? ` in "${chunk.location}" section` : '');
+        whyMatters = tightened
+          ? 'DEADLINE TIGHTENED: people now have less time to comply'
+          : 'A changed limit or amount may change what is required or who it applies to';
+        action = tightened
+          ? 'Tell affected staff about the shorter deadline and update reminders and training'
+          : 'Update processes and training that rely on the old value';
+      }
+
+      const addedText = addedTextOf(chunk);
+      const hrPhrases = addedText ? this.detectHighRiskInText(addedText) : [];
       if (hrPhrases.length > 0) {
         whyMatters = `HIGH RISK: Contains "${hrPhrases[0]}" language - may affect privacy/compliance`;
         action = 'Escalate for legal/compliance review immediately';
       }
 
-      return {
-        change_type: chunk.type,
-        location: chunk.location,
-        before_excerpt: chunk.before,
-        after_excerpt: chunk.after,
-        plain_english_change: plainEnglish,
-        why_it_matters: whyMatters,
-        recommended_action: action,
-        confidence: chunk.location ? 'high' : 'medium',
-      };
+      // Each changed modality is its own item, ahead of the paragraph it came from
+      return [
+        ...(chunk.modalityChanges || []).map(change => this.describeModalityChange(change)),
+        {
+          change_type: chunk.type,
+          location: chunk.location,
+          before_excerpt: chunk.before,
+          after_excerpt: chunk.after,
+          redline: chunk.redline,
+          severity: hrPhrases.length > 0 || tightened ? 'high' : chunk.type === 'moved' && !chunk.edited ? 'low' : 'medium',
+          plain_english_change: plainEnglish,
+          why_it_matters: whyMatters,
+          recommended_action: action,
+          confidence: chunk.location ? 'high' : 'medium',
+        },
+      ];
     });
-
-    const whatChanged = changeItems.map(item => item.plain_english_change);
+    const tightenedDeadlines = diffResult.thresholdChanges.filter(change => change.tightened);
+    const bindingModalityChanges = diffResult.modalityChanges.filter(change => isBinding(change.to));
+
+    // Sections added, removed or renamed lead, since they describe the change at a glance
+    const structuralChanges = diffResult.sectionChanges.filter(change => change.type !== 'modified');
+    const whatChanged = [
+      ...structuralChanges.map(change => change.description),
+      ...changeItems.map(item => item.plain_english_change),
+    ];
     if (whatChanged.length === 0) {
       whatChanged.push(`"${documentName}" content has changed`);
     }
@@ -387,20 +552,40 @@ export class DeterministicExplanationGenerator implements IExplanationGenerator
     if (hasHighRiskChanges) {
       whyMatters.push(`HIGH RISK: Contains privacy/compliance language (${highRiskPhrases.slice(0, 3).join(', ')})`);
     }
+    for (const change of tightenedDeadlines) {
+      whyMatters.push(`DEADLINE TIGHTENED: ${change.description}${change.location ? ` ("${change.location}")` : ''}`);
+    }
+    for (const change of bindingModalityChanges) {
+      whyMatters.push(`REQUIREMENT CHANGED: ${change.description}${change.location ? ` ("${change.location}")` : ''}`);
+    }
     whyMatters.push('Policy modifications may affect compliance requirements');
-    if (summary.added > 0) whyMatters.push(`${summary.added} new section(s) added`);
-    if (summary.removed > 0) whyMatters.push(`${summary.removed} section(s) removed`);
+    const sectionCount = (type: string) => structuralChanges.filter(change => change.type === type).length;
+    if (sectionCount('added') > 0) whyMatters.push(`${sectionCount('added')} new section(s) added`);
+    if (sectionCount('removed') > 0) whyMatters.push(`${sectionCount('removed')} section(s) removed`);
+    if (summary.added > 0) whyMatters.push(`${summary.added} paragraph(s) added`);
+    if (summary.removed > 0) whyMatters.push(`${summary.removed} paragraph(s) removed`);
+    if (summary.moved > 0) whyMatters.push(`${summary.moved} paragraph(s) moved`);
 
     const recommendedActions = [
       'Review all changed sections carefully',
       'Assess impact on training and onboarding materials',
     ];
+    if (bindingModalityChanges.length > 0) {
+      recommendedActions.unshift('Tell affected staff what they now must or must not do');
+    }
+    if (tightenedDeadlines.length > 0) {
+      recommendedActions.unshift('Tell affected staff about the shorter deadline(s) before they take effect');
+    }
     if (hasHighRiskChanges) {
       recommendedActions.unshift('Escalate to legal/compliance team for review');
     }
 
-    const titlePrefix = hasHighRiskChanges ? '⚠️ HIGH RISK: ' : '';
-    const title = `${titlePrefix}"${documentName}" modified with ${chunks.length} specific change(s)`;
+    const titlePrefix = hasHighRiskChanges ? '⚠️ HIGH RISK: ' : tightenedDeadlines.length > 0 ? '⏱️ DEADLINE TIGHTENED: ' : '';
+    let title = `${titlePrefix}"${documentName}" modified with ${chunks.length} specific change(s)`;
+    if (diffResult.fallback === 'section-summary') {
+      title = `${titlePrefix}"${documentName}" has too many changes to compare paragraph by paragraph; showing a summary of ${chunks.length} changed section(s)`;
+      whatChanged.unshift(`${summary.added} paragraph(s) added and ${summary.removed} removed`);
+    }
 
     return createDeterministicExplanation(
       title,
@@ -409,15 +594,40 @@ export class DeterministicExplanationGenerator implements IExplanationGenerator
         why_it_matters: whyMatters,
         recommended_actions: recommendedActions,
         change_items: changeItems,
+        section_changes: diffResult.sectionChanges.map(change => change.description),
+        threshold_changes: diffResult.thresholdChanges.map(change => change.description),
+        modality_changes: diffResult.modalityChanges.map(change => change.description),
       },
       {
-        confidence: changeItems.length > 0 ? 'high' : 'medium',
+        confidence: changeItems.length > 0 && !diffResult.fallback ? 'high' : 'medium',
         highRiskDetected: hasHighRiskChanges,
         highRiskPhrases: highRiskPhrases,
+        deadlineTightened: tightenedDeadlines.length > 0,
       }
     );
   }
 
+  protected describeModalityChange(change: ModalityChange): ChangeItem {
+    const binding = isBinding(change.to);
+    let whyMatters = 'The wording now recommends or permits differently, which may change what staff are expected to do';
+    if (change.to === 'prohibition') whyMatters = 'Staff are now forbidden from doing this';
+    else if (change.to === 'obligation') whyMatters = 'Staff are now required to do this';
+    else if (isBinding(change.from)) whyMatters = 'Staff now have a choice where the wording used to bind them';
+    return {
+      change_type: 'modality',
+      location: change.location,
+      before_excerpt: change.before,
+      after_excerpt: change.after,
+      severity: binding ? 'high' : 'medium',
+      plain_english_change: change.description + (change.location ? ` in "${change.location}" section` : ''),
+      why_it_matters: whyMatters,
+      recommended_action: binding
+        ? 'Update procedures and training, and tell affected staff about the new requirement'
+        : 'Update procedures and training that describe this as required',
+      confidence: 'high',
+    };
+  }
+
   protected detectHighRiskInText(text: string): string[] {
     const phrases = [
       'sell', 'share', 'disclose', 'third party', 'transfer', 'retain', 'collect',
@@ -466,7 +676,7 @@ export class ReplitAIExplanationGenerator extends DeterministicExplanationGenera
   async generateExplanation(input: ExplanationInput): Promise<ExplanationOutput> {
     const { changeRecord } = input;
 
-    if (changeRecord.changeType === 'baseline' || changeRecord.changeType === 'renamed' || changeRecord.changeType === 'deleted') {
+    if (changeRecord.changeType === 'baseline' || changeRecord.changeType === 'renamed' || changeRecord.changeType === 'moved' || changeRecord.changeType === 'metadata' || changeRecord.changeType === 'deleted') {
       return super.generateExplanation(input);
     }
 
@@ -491,10 +701,20 @@ export class ReplitAIExplanationGenerator extends DeterministicExplanationGenera
     
     if (changeRecord.changeType === 'modified' && previousContent && newContent) {
       diffResult = computeTextDiff(previousContent, newContent, 5);
-      diffChunks = diffResult.chunks;
+      // The model gets the inserted and deleted words rather than the redline markup
+      diffChunks = diffResult.chunks.map(({ redline, ...chunk }) => chunk);
       
       if (diffChunks.length > 0) {
         diffContext = `\nDiff Chunks (prioritized by importance):\n${JSON.stringify(diffChunks, null, 2)}`;
+        if (diffResult.sectionChanges.length > 0) {
+          diffContext += `\nSection changes:\n${diffResult.sectionChanges.map(change => `- ${change.description}`).join('\n')}`;
+        }
+        if (diffResult.thresholdChanges.length > 0) {
+          diffContext += `\nChanged numbers, limits and deadlines:\n${diffResult.thresholdChanges.map(change => `- ${change.description}${change.tightened ? ' (deadline tightened)' : ''}`).join('\n')}`;
+        }
+        if (diffResult.modalityChanges.length > 0) {
+          diffContext += `\nChanged obligations and permissions:\n${diffResult.modalityChanges.map(change => `- ${change.description}: "${change.after}"`).join('\n')}`;
+        }
       } else {
         const prevTrunc = previousContent.substring(0, 1000);
         const newTrunc = newContent.substring(0, 1000);
@@ -517,7 +737,7 @@ IMPORTANT: You MUST output valid JSON matching this EXACT schema:
   "title": "Brief one-line summary (include ⚠️ HIGH RISK prefix if privacy/compliance terms detected)",
   "change_items": [
     {
-      "change_type": "added" | "removed" | "modified",
+      "change_type": "added" | "removed" | "modified" | "modality",
       "location": "Section name if known, or null",
       "before_excerpt": "Original text excerpt (<=30 words) or null if added",
       "after_excerpt": "New text excerpt (<=30 words) or null if removed",
@@ -540,6 +760,8 @@ RULES:
 - Every change_item MUST have before_excerpt and/or after_excerpt from the actual text
 - Do NOT invent facts - only describe what you see in the excerpts
 - Flag any text containing: sell, share, disclose, third party, transfer, consent, opt out, marketing, undisclosed, PII, personal data
+- State every changed number, limit or deadline with its old and new value; a tightened deadline belongs in the title
+- Report each changed obligation or permission (e.g. "should" became "must") as its own change_item with change_type "modality"
 - Keep excerpts under 30 words
 - 3-8 change_items max, prioritize most important changes
 - If you cannot identify specific changes, say so honestly`;
@@ -565,6 +787,9 @@ RULES:
         why_it_matters: parsed.summary?.why_it_matters || [],
         recommended_actions: parsed.summary?.recommended_actions || [],
         change_items: parsed.change_items || [],
+        section_changes: diffResult?.sectionChanges.map(change => change.description),
+        threshold_changes: diffResult?.thresholdChanges.map(change => change.description),
+        modality_changes: diffResult?.modalityChanges.map(change => change.description),
       },
       meta: {
         model: 'gpt-4o-mini',
@@ -574,6 +799,7 @@ RULES:
         deterministic: false,
         highRiskDetected: parsed.high_risk_detected || false,
         highRiskPhrases: diffResult?.highRiskPhrases || [],
+        deadlineTightened: diffResult?.thresholdChanges.some(change => change.tightened) || false,
       },
     };
   }
@@ -592,6 +818,8 @@ export async function generateAndStoreExplanation(
     const status = generator.isEnabled() || 
       input.changeRecord.changeType === 'baseline' || 
       input.changeRecord.changeType === 'renamed' ||
+      input.changeRecord.changeType === 'moved' ||
+      input.changeRecord.changeType === 'metadata' ||
       input.changeRecord.changeType === 'deleted'
         ? 'generated' 
         : 'skipped';
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FileRuleMatcher, parseFileRules } from './fileRules';
+import { SourceFile } from './documentSource';
+import { FileRules } from '../types';
+
+const file = (filePath: string, mimeType = 'text/plain', size?: number): SourceFile => {
+  const slash = filePath.lastIndexOf('/');
+  return {
+    id: filePath,
+    name: filePath.substring(slash + 1),
+    path: slash >= 0 ? filePath.substring(0, slash) : '',
+    mimeType,
+    modifiedTime: '2025-01-01T00:00:00Z',
+    size,
+  };
+};
+
+describe('parseFileRules', () => {
+  it('trims patterns and keeps the size limit', () => {
+    assert.deepEqual(parseFileRules({ include: [' *.md '], excludeMimeTypes: ['image/*'], maxSizeBytes: 1024 }), {
+      rules: { include: ['*.md'], excludeMimeTypes: ['image/*'], maxSizeBytes: 1024 },
+    });
+  });
+
+  // [case, value, error]
+  const cases: Array<[string, unknown, string]> = [
+    ['a list', ['*.md'], 'fileRules must be an object'],
+    ['a pattern string', { include: '*.md' }, 'fileRules.include must be an array of non-empty strings'],
+    ['a blank pattern', { exclude: ['  '] }, 'fileRules.exclude must be an array of non-empty strings'],
+    ['a zero size limit', { maxSizeBytes: 0 }, 'fileRules.maxSizeBytes must be a positive integer or null'],
+    ['an unknown field', { includes: ['*.md'] }, 'Unknown fileRules field: includes'],
+  ];
+  for (const [name, value, error] of cases) {
+    it(`rejects ${name}`, () => {
+      assert.deepEqual(parseFileRules(value), { error });
+    });
+  }
+});
+
+describe('FileRuleMatcher', () => {
+  // [case, rules, file, reason]
+  const cases: Array<[string, FileRules, SourceFile, string | null]> = [
+    ['no rules', {}, file('HR/Leave.docx'), null],
+    ['a name glob in any folder', { exclude: ['~$*'] }, file('HR/~$Leave.docx'), 'Excluded by rule "~$*"'],
+    ['a name glob ignoring case', { exclude: ['*.TMP'] }, file('notes.tmp'), 'Excluded by rule "*.TMP"'],
+    ['a path glob from the root', { exclude: ['HR/*.pdf'] }, file('HR/Leave.pdf'), 'Excluded by rule "HR/*.pdf"'],
+    ['a path glob one folder down', { exclude: ['HR/*.pdf'] }, file('HR/Old/Leave.pdf'), null],
+    ['a ** path glob at any depth', { exclude: ['HR/**/*.pdf'] }, file('HR/Old/2020/Leave.pdf'), 'Excluded by rule "HR/**/*.pdf"'],
+    ['a folder name anywhere', { exclude: ['Archive/'] }, file('HR/Archive/2020/Leave.docx'), 'Excluded by rule "Archive/"'],
+    ['a folder path from the root', { exclude: ['Policies/Drafts/**'] }, file('Policies/Drafts/Leave.docx'), 'Excluded by rule "Policies/Drafts/**"'],
+    ['a file matching an include rule', { include: ['*.docx', '*.md'] }, file('HR/Leave.md'), null],
+    ['a file matching no include rule', { include: ['*.docx'] }, file('HR/Leave.pdf'), 'Not matched by any include rule'],
+    ['an exclude rule over an include rule', { include: ['*.docx'], exclude: ['Draft*'] }, file('Draft leave.docx'), 'Excluded by rule "Draft*"'],
+    ['an excluded type prefix', { excludeMimeTypes: ['image/*'] }, file('logo.png', 'image/png'), 'File type image/png excluded by rule "image/*"'],
+    ['a type outside the included ones', { includeMimeTypes: ['application/vnd.google-apps.*'] }, file('Leave.pdf', 'application/pdf'), 'File type application/pdf not in the included types'],
+    ['a file over the size limit', { maxSizeBytes: 100 }, file('Leave.pdf', 'application/pdf', 101), 'Larger than the 100-byte limit (101 bytes)'],
+    ['a native file without a size', { maxSizeBytes: 100 }, file('Leave', 'application/vnd.google-apps.document'), null],
+  ];
+  for (const [name, rules, candidate, reason] of cases) {
+    it(`handles ${name}`, () => {
+      assert.equal(new FileRuleMatcher(rules).ignoresFile(candidate), reason);
+    });
+  }
+
+  it('skips excluded folders and the folders inside them', () => {
+    const matcher = new FileRuleMatcher({ exclude: ['Archive/', 'HR/Drafts/**', '*.tmp'] });
+    assert.equal(matcher.ignoresFolder('Archive'), 'Folder excluded by rule "Archive/"');
+    assert.equal(matcher.ignoresFolder('Policies/Archive/2020'), 'Folder excluded by rule "Archive/"');
+    assert.equal(matcher.ignoresFolder('HR/Drafts'), 'Folder excluded by rule "HR/Drafts/**"');
+    assert.equal(matcher.ignoresFolder('Finance/HR/Drafts'), null);
+    assert.equal(matcher.ignoresFolder('HR'), null);
+  });
+});
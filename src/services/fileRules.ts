@@ -0,0 +1,138 @@
+import { FileRules } from '../types';
+import { SourceFile } from './documentSource';
+
+const PATTERN_LISTS = ['include', 'exclude', 'includeMimeTypes', 'excludeMimeTypes'] as const;
+
+// Validates the `fileRules` of a folder create or update request
+export function parseFileRules(value: any): { rules: FileRules } | { error: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'fileRules must be an object' };
+  }
+  const rules: FileRules = {};
+  for (const key of PATTERN_LISTS) {
+    if (value[key] === undefined) continue;
+    if (!Array.isArray(value[key]) || !value[key].every((pattern: unknown) => typeof pattern === 'string' && pattern.trim())) {
+      return { error: `fileRules.${key} must be an array of non-empty strings` };
+    }
+    rules[key] = value[key].map((pattern: string) => pattern.trim());
+  }
+  if (value.maxSizeBytes !== undefined && value.maxSizeBytes !== null) {
+    if (!Number.isInteger(value.maxSizeBytes) || value.maxSizeBytes < 1) {
+      return { error: 'fileRules.maxSizeBytes must be a positive integer or null' };
+    }
+    rules.maxSizeBytes = value.maxSizeBytes;
+  }
+  const unknown = Object.keys(value).filter(key => !(PATTERN_LISTS as readonly string[]).includes(key) && key !== 'maxSizeBytes');
+  if (unknown.length > 0) return { error: `Unknown fileRules field: ${unknown.join(', ')}` };
+  return { rules };
+}
+
+// `**` matches across folders, `*` and `?` within one name. Matching ignores case.
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      i++;
+      if (glob[i + 1] === '/') {
+        i++;
+        source += '(?:.*/)?';
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+interface PathPattern {
+  text: string;
+  regex: RegExp;
+  // Folder patterns ("Archive/", "Policies/Drafts/**") match everything inside a folder
+  folder: boolean;
+  // Patterns without a slash match a single name; others match the path from the root
+  anchored: boolean;
+}
+
+function compilePattern(text: string): PathPattern {
+  let body = text.replace(/^\//, '');
+  let folder = false;
+  if (body.endsWith('/**')) {
+    body = body.slice(0, -3);
+    folder = true;
+  } else if (body.endsWith('/')) {
+    body = body.slice(0, -1);
+    folder = true;
+  }
+  return { text, regex: globToRegExp(body), folder, anchored: body.includes('/') };
+}
+
+// Each folder on the way down: "a/b" gives "a" then "a/b"
+function folderPrefixes(folderPath: string): string[] {
+  const segments = folderPath ? folderPath.split('/') : [];
+  return segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+}
+
+function matchesFolder(pattern: PathPattern, folderPath: string): boolean {
+  return folderPrefixes(folderPath).some(prefix =>
+    pattern.regex.test(pattern.anchored ? prefix : prefix.substring(prefix.lastIndexOf('/') + 1))
+  );
+}
+
+function matchesFile(pattern: PathPattern, folderPath: string, name: string): boolean {
+  if (pattern.folder) return matchesFolder(pattern, folderPath);
+  return pattern.regex.test(pattern.anchored ? (folderPath ? `${folderPath}/${name}` : name) : name);
+}
+
+// "application/pdf" matches itself, "application/vnd.google-apps.*" any Google format
+function matchesMimeType(pattern: string, mimeType: string): boolean {
+  return pattern.endsWith('*')
+    ? mimeType.toLowerCase().startsWith(pattern.slice(0, -1).toLowerCase())
+    : mimeType.toLowerCase() === pattern.toLowerCase();
+}
+
+// Applies a folder's rules to listed files. Each check returns why the file or folder is
+// ignored, or null when it is tracked.
+export class FileRuleMatcher {
+  private include: PathPattern[];
+  private exclude: PathPattern[];
+
+  constructor(private rules: FileRules) {
+    this.include = (rules.include || []).map(compilePattern);
+    this.exclude = (rules.exclude || []).map(compilePattern);
+  }
+
+  // Excluded folders are not traversed at all
+  ignoresFolder(folderPath: string): string | null {
+    const pattern = this.exclude.find(pattern => pattern.folder && matchesFolder(pattern, folderPath));
+    return pattern ? `Folder excluded by rule "${pattern.text}"` : null;
+  }
+
+  ignoresFile(file: SourceFile): string | null {
+    const folderPath = file.path ?? '';
+    const excluded = this.exclude.find(pattern => matchesFile(pattern, folderPath, file.name));
+    if (excluded) return `Excluded by rule "${excluded.text}"`;
+    if (this.include.length > 0 && !this.include.some(pattern => matchesFile(pattern, folderPath, file.name))) {
+      return 'Not matched by any include rule';
+    }
+
+    const { includeMimeTypes = [], excludeMimeTypes = [], maxSizeBytes } = this.rules;
+    const excludedType = excludeMimeTypes.find(pattern => matchesMimeType(pattern, file.mimeType));
+    if (excludedType) return `File type ${file.mimeType} excluded by rule "${excludedType}"`;
+    if (includeMimeTypes.length > 0 && !includeMimeTypes.some(pattern => matchesMimeType(pattern, file.mimeType))) {
+      return `File type ${file.mimeType} not in the included types`;
+    }
+
+    // Native Google files have no size, so the limit does not apply to them
+    if (maxSizeBytes && file.size !== undefined && file.size > maxSizeBytes) {
+      return `Larger than the ${maxSizeBytes}-byte limit (${file.size} bytes)`;
+    }
+    return null;
+  }
+}
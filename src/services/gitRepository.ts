@@ -0,0 +1,145 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { DocumentSource, SourceFile, SourceRevision } from './documentSource';
+import { mimeTypeForPath } from './localDirectory';
+
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+function git(cwd: string, args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, encoding: 'buffer', maxBuffer: MAX_OUTPUT_BYTES }, (err, stdout, stderr) => {
+      if (err) reject(new Error(`git ${args[0]} failed: ${stderr.toString().trim() || err.message}`));
+      else resolve(stdout);
+    });
+  });
+}
+
+async function gitText(cwd: string, args: string[]): Promise<string> {
+  return (await git(cwd, args)).toString('utf8');
+}
+
+// Tracks files committed to a local git clone. The root ID is the clone (or a folder inside it);
+// content is always read from commits, never from the working tree, so no network is needed.
+export class GitRepositorySource implements DocumentSource {
+  readonly type = 'git' as const;
+  private topLevels = new Map<string, string>();
+
+  async checkAvailability(rootPath: string): Promise<string | null> {
+    try {
+      await gitText(rootPath, ['rev-parse', '--verify', 'HEAD']);
+      return null;
+    } catch {
+      return `Not a git repository with commits: ${rootPath}`;
+    }
+  }
+
+  async listFiles(rootPath: string, ignoresFolder?: (folderPath: string) => boolean): Promise<SourceFile[]> {
+    const root = path.resolve(rootPath);
+    // Long format: "<mode> <type> <object> <size>\t<path>"
+    const sizes = new Map<string, number>();
+    for (const entry of (await gitText(root, ['ls-tree', '-r', '-z', '-l', 'HEAD', '--', '.'])).split('\0')) {
+      const tab = entry.indexOf('\t');
+      if (tab < 0) continue;
+      sizes.set(entry.substring(tab + 1), parseInt(entry.substring(0, tab).trim().split(/\s+/)[3], 10));
+    }
+
+    // Files in an ignored folder are left out, as if the folder were not traversed
+    const ignoredFolders = new Map<string, boolean>();
+    const isInIgnoredFolder = (relativePath: string): boolean => {
+      const folderPath = path.posix.dirname(relativePath);
+      if (folderPath === '.' || !ignoresFolder) return false;
+      if (!ignoredFolders.has(folderPath)) {
+        ignoredFolders.set(folderPath, isInIgnoredFolder(folderPath) || ignoresFolder(folderPath));
+      }
+      return ignoredFolders.get(folderPath)!;
+    };
+    const tracked = Array.from(sizes.keys()).filter(relativePath => !isInIgnoredFolder(relativePath));
+
+    // One pass over the log finds the latest commit touching each file
+    const latest = new Map<string, { sha: string; committedAt: string; author: string; authorEmail: string }>();
+    const format = RECORD_SEPARATOR + ['%H', '%cI', '%an', '%ae'].join(FIELD_SEPARATOR);
+    const log = await gitText(root, ['log', '--relative', '--name-only', '-z', `--format=${format}`, 'HEAD', '--', '.']);
+    for (const record of log.split(RECORD_SEPARATOR)) {
+      const [header, ...names] = record.split('\0').map(part => part.replace(/^\n/, ''));
+      const [sha, committedAt, author, authorEmail] = header.split(FIELD_SEPARATOR);
+      if (!sha) continue;
+      for (const name of names) {
+        if (name && !latest.has(name)) latest.set(name, { sha, committedAt, author, authorEmail });
+      }
+    }
+
+    return tracked.map(relativePath => {
+      const commit = latest.get(relativePath);
+      console.log(`  📄 Found: ${relativePath}`);
+      return {
+        id: path.join(root, relativePath),
+        name: path.basename(relativePath),
+        mimeType: mimeTypeForPath(relativePath),
+        modifiedTime: commit?.committedAt || new Date(0).toISOString(),
+        size: Number.isNaN(sizes.get(relativePath)) ? undefined : sizes.get(relativePath),
+        revision: commit?.sha,
+        modifiedBy: commit && { name: commit.author, email: commit.authorEmail || undefined },
+        path: path.posix.dirname(relativePath) === '.' ? '' : path.posix.dirname(relativePath),
+      };
+    });
+  }
+
+  async fetchContent(file: SourceFile): Promise<Buffer | null> {
+    try {
+      const { root, relativePath } = await this.locate(file);
+      return await git(root, ['show', `${file.revision || 'HEAD'}:./${relativePath}`]);
+    } catch (error) {
+      console.error(`Error reading ${file.id} from git:`, error);
+      return null;
+    }
+  }
+
+  async listRevisions(file: SourceFile, sinceRevision: string | null): Promise<SourceRevision[]> {
+    const { root, relativePath } = await this.locate(file);
+    const head = file.revision || 'HEAD';
+
+    let range = head;
+    if (sinceRevision) {
+      // A rewritten history (rebase, force push) loses the old revision; fall back to the latest one
+      const isAncestor = await git(root, ['merge-base', '--is-ancestor', sinceRevision, head]).then(() => true, () => false);
+      range = isAncestor ? `${sinceRevision}..${head}` : `${head}^!`;
+      if (!isAncestor) {
+        console.warn(`  ⚠️  ${sinceRevision.substring(0, 7)} is no longer in the history of ${relativePath}; using the latest commit only`);
+      }
+    }
+
+    // Commits that delete the file have no content to version, so they are left out
+    const format = ['%H', '%an', '%ae', '%cI', '%B'].join(FIELD_SEPARATOR) + RECORD_SEPARATOR;
+    const log = await gitText(root, ['log', '--reverse', '--diff-filter=ACMRT', `--format=${format}`, range, '--', relativePath]);
+
+    return log
+      .split(RECORD_SEPARATOR)
+      .map(record => record.replace(/^\n/, ''))
+      .filter(record => record.length > 0)
+      .map(record => {
+        const [id, author, authorEmail, committedAt, message] = record.split(FIELD_SEPARATOR);
+        return { id, kind: 'commit' as const, author, authorEmail: authorEmail || undefined, committedAt, message: message.trim() };
+      });
+  }
+
+  // Paths are resolved from the repository top level so files keep working from any subfolder root.
+  // The file may no longer exist in the working tree, so git runs from its nearest existing folder.
+  private async locate(file: SourceFile): Promise<{ root: string; relativePath: string }> {
+    let directory = path.dirname(file.id);
+    while (!fs.existsSync(directory) && path.dirname(directory) !== directory) {
+      directory = path.dirname(directory);
+    }
+
+    let topLevel = this.topLevels.get(directory);
+    if (!topLevel) {
+      topLevel = (await gitText(directory, ['rev-parse', '--show-toplevel'])).trim();
+      this.topLevels.set(directory, topLevel);
+    }
+    return { root: topLevel, relativePath: path.relative(topLevel, file.id).split(path.sep).join('/') };
+  }
+}
+
+export const gitRepositorySource = new GitRepositorySource();
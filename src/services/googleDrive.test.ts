@@ -0,0 +1,74 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { googleDriveService } from './googleDrive';
+
+// Folders by ID; "hidden" is the parent of a file shared from a folder the user cannot see
+const FOLDERS: Record<string, { name: string; parents?: string[] } | number> = {
+  root: { name: 'Policies', parents: ['top'] },
+  top: { name: 'My Drive' },
+  hr: { name: 'HR', parents: ['root'] },
+  elsewhere: { name: 'Elsewhere', parents: ['top'] },
+  hidden: 403,
+  gone: 404,
+};
+
+const file = (id: string, parent: string) => ({ id, name: `${id}.txt`, mimeType: 'text/plain', modifiedTime: '2025-01-01T00:00:00Z', parents: [parent] });
+
+const CHANGES = [
+  { fileId: 'inside', file: file('inside', 'hr') },
+  { fileId: 'shared', file: file('shared', 'hidden') },
+  { fileId: 'orphan', file: file('orphan', 'gone') },
+  { fileId: 'outside', file: file('outside', 'elsewhere') },
+  { fileId: 'deleted', removed: true },
+];
+
+function fakeDrive(url: string): Response {
+  const { pathname } = new URL(url);
+  if (pathname === '/drive/v3/changes') {
+    return Response.json({ changes: CHANGES, newStartPageToken: 'next' });
+  }
+  const id = pathname.split('/').pop()!;
+  if (id === 'shared' || id === 'orphan') return Response.json({ trashed: false, parents: [id === 'shared' ? 'hidden' : 'gone'] });
+  const folder = FOLDERS[id];
+  if (typeof folder === 'number') return new Response('{}', { status: folder });
+  if (!folder) return new Response('{}', { status: 500 });
+  return Response.json(folder);
+}
+
+describe('GoogleDriveService change feed', () => {
+  beforeEach(() => {
+    googleDriveService.setAccessToken('token');
+    mock.method(globalThis, 'fetch', async (url: string) => fakeDrive(url));
+    mock.method(console, 'log', () => {});
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it('treats files under folders the user cannot read as outside the root', async () => {
+    const changes = await googleDriveService.listChanges('root', 'start');
+    assert.deepEqual(changes.changed.map(changed => [changed.id, changed.path]), [['inside', 'HR']]);
+    assert.deepEqual(changes.removedIds.sort(), ['deleted', 'orphan', 'outside', 'shared']);
+    assert.equal(changes.nextCursor, 'next');
+  });
+
+  it('maps changed files to the roots they are in', async () => {
+    const { changes } = await googleDriveService.listChangesByRoot('start', ['root', 'elsewhere']);
+    assert.deepEqual(changes, [
+      { fileId: 'inside', rootIds: ['root'] },
+      { fileId: 'shared', rootIds: [] },
+      { fileId: 'orphan', rootIds: [] },
+      { fileId: 'outside', rootIds: ['elsewhere'] },
+      { fileId: 'deleted', rootIds: [] },
+    ]);
+  });
+
+  it('locates a file under an unreadable folder without failing', async () => {
+    assert.deepEqual(await googleDriveService.locateFile('shared'), { path: '' });
+  });
+
+  it('still fails on other errors', async () => {
+    mock.method(globalThis, 'fetch', async (url: string) =>
+      url.includes('/files/hr') ? new Response('{}', { status: 401 }) : fakeDrive(url));
+    await assert.rejects(googleDriveService.listChanges('root', 'start'), /401/);
+  });
+});
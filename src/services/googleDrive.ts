@@ -1,5 +1,7 @@
 import { createHash } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
+import { DocumentSource, SourceChanges, SourceFile, SourceRevision } from './documentSource';
+import { SharingPermission, SourceUser } from '../types';
 
 // Placeholder for Google Drive service
 // Will be properly integrated after setting up Google Drive connector
@@ -9,63 +11,435 @@ export interface GoogleDriveFile {
   mimeType: string;
   modifiedTime: string;
   md5Checksum?: string; // ✅ add
+  size?: number;
+  version?: string;
+  path?: string;
+  modifiedBy?: SourceUser;
+  owners?: SourceUser[];
+  permissions?: SharingPermission[];
+  description?: string;
 }
 
-export class GoogleDriveService {
+interface FolderInfo {
+  name: string;
+  parents: string[];
+  // The user cannot read the folder, e.g. the parent of a file shared with them on its own
+  unreadable?: boolean;
+}
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+// File fields requested by listings and the change feed
+const FILE_FIELDS = 'id,name,mimeType,modifiedTime,md5Checksum,size,version,description,'
+  + 'lastModifyingUser(displayName,emailAddress),owners(displayName,emailAddress),'
+  + 'permissions(type,role,emailAddress,domain,allowFileDiscovery)';
+const GOOGLE_DOC_MIME_TYPE = 'application/vnd.google-apps.document';
+
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 32000;
+const EXPORT_CONCURRENCY = Math.max(1, parseInt(process.env.DRIVE_EXPORT_CONCURRENCY || '4', 10) || 4);
+
+// Drive omits users it cannot show (e.g. deleted accounts) or gives them no email address
+function toSourceUser(user: { displayName?: string; emailAddress?: string } | undefined): SourceUser | undefined {
+  if (!user?.displayName && !user?.emailAddress) return undefined;
+  return { name: user.displayName || user.emailAddress!, email: user.emailAddress };
+}
+
+function toDriveFile(file: any, path: string): GoogleDriveFile {
+  return {
+    id: file.id,
+    name: file.name,
+    mimeType: file.mimeType,
+    modifiedTime: file.modifiedTime,
+    md5Checksum: file.md5Checksum,
+    // Drive returns int64 fields as strings
+    size: file.size !== undefined ? Number(file.size) : undefined,
+    version: file.version,
+    path,
+    modifiedBy: toSourceUser(file.lastModifyingUser),
+    owners: file.owners?.map(toSourceUser).filter((owner: SourceUser | undefined): owner is SourceUser => !!owner),
+    // Drive leaves permissions out for files the user cannot share
+    permissions: file.permissions?.map((permission: any) => ({
+      type: permission.type,
+      role: permission.role,
+      emailAddress: permission.emailAddress,
+      domain: permission.domain,
+      allowFileDiscovery: permission.allowFileDiscovery,
+    })),
+    description: file.description,
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Drive reports per-user rate limits as 403 with a rateLimitExceeded reason rather than 429
+async function isRetryable(response: Response): Promise<boolean> {
+  if (response.status === 429 || response.status >= 500) return true;
+  if (response.status !== 403) return false;
+  const body = await response.clone().text().catch(() => '');
+  return /rateLimitExceeded|userRateLimitExceeded/.test(body);
+}
+
+function backoffDelay(attempt: number, retryAfter: string | null): number {
+  const retryAfterSeconds = retryAfter ? parseInt(retryAfter, 10) : NaN;
+  if (!isNaN(retryAfterSeconds)) return Math.min(retryAfterSeconds * 1000, MAX_BACKOFF_MS);
+  const exponential = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+  return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+// Runs at most `limit` tasks at once; later tasks wait in FIFO order
+class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      // The finishing task hands its slot over, so `active` is not incremented here
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.active--;
+    }
+  }
+}
+
+export interface SpreadsheetTab {
+  sheetId: number;
+  title: string;
+  index: number;
+}
+
+export class GoogleDriveService implements DocumentSource {
+  readonly type = 'google_drive' as const;
   private accessToken: string | null = null;
+  private authCheck: (() => Promise<boolean>) | null = null;
+  private exportLimiter = new ConcurrencyLimiter(EXPORT_CONCURRENCY);
 
   setAccessToken(token: string): void {
     this.accessToken = token;
   }
 
-  async listFiles(folderId: string): Promise<GoogleDriveFile[]> {
-    const allFiles: GoogleDriveFile[] = [];
-    await this.recursiveListFiles(folderId, allFiles);
-    return allFiles;
+  // Registered by the auth manager so availability checks can refresh an expired token
+  setAuthCheck(check: () => Promise<boolean>): void {
+    this.authCheck = check;
   }
 
-  private async recursiveListFiles(folderId: string, accumulator: GoogleDriveFile[]): Promise<void> {
-    if (!this.accessToken) {
-      console.error('❌ Google Drive access token not set. Cannot list files.');
-      return;
-    }
+  async checkAvailability(folderId: string): Promise<string | null> {
+    const authenticated = this.authCheck ? await this.authCheck() : this.accessToken !== null;
+    return authenticated ? null : 'Not authenticated with Google Drive';
+  }
+
+  async fetchContent(file: SourceFile): Promise<Buffer | null> {
+    return this.downloadFile(file.id);
+  }
 
+  // Any listing error fails the whole call: a partial listing would make deletion
+  // detection mark every unlisted document as deleted
+  async listFiles(folderId: string, ignoresFolder?: (folderPath: string) => boolean): Promise<GoogleDriveFile[]> {
+    const allFiles: GoogleDriveFile[] = [];
     try {
-      const query = `'${folderId}' in parents and trashed=false`;
-      const fieldsParam = 'files(id,name,mimeType,modifiedTime,md5Checksum)';
-      const url = `https://www.googleapis.com/drive/v3/files?q=${encodeURIComponent(query)}&spaces=drive&fields=${encodeURIComponent(fieldsParam)}`;
-      
-      const response = await fetch(url, {
-        headers: {
-          Authorization: `Bearer ${this.accessToken}`,
-        },
-      });
+      await this.recursiveListFiles(folderId, allFiles, '', ignoresFolder);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Google Drive listing of folder ${folderId} is incomplete: ${message}`);
+    }
+    return allFiles;
+  }
 
-      if (!response.ok) {
-        const errorBody = await response.text();
-        console.error(`❌ Google Drive API error: ${response.status} ${response.statusText}`);
-        console.error(`Response: ${errorBody}`);
-        throw new Error(`Google Drive API error: ${response.status} ${response.statusText}`);
-      }
+  private async recursiveListFiles(
+    folderId: string,
+    accumulator: GoogleDriveFile[],
+    folderPath = '',
+    ignoresFolder?: (folderPath: string) => boolean
+  ): Promise<void> {
+    const query = `'${folderId}' in parents and trashed=false`;
+    const fieldsParam = `nextPageToken,files(${FILE_FIELDS})`;
 
-      const data = (await response.json()) as any;
-      const files = data.files || [];
-      
-      for (const file of files) {
+    let pageToken: string | undefined;
+    do {
+      let url = `https://www.googleapis.com/drive/v3/files?q=${encodeURIComponent(query)}&spaces=drive&pageSize=1000&fields=${encodeURIComponent(fieldsParam)}`;
+      if (pageToken) url += `&pageToken=${encodeURIComponent(pageToken)}`;
+
+      const data = await this.getJson(url);
+      for (const file of data.files || []) {
         // If it's a folder, recurse into it
-        if (file.mimeType === 'application/vnd.google-apps.folder') {
+        if (file.mimeType === FOLDER_MIME_TYPE) {
+          const subfolderPath = folderPath ? `${folderPath}/${file.name}` : file.name;
+          if (ignoresFolder?.(subfolderPath)) continue;
           console.log(`📁 Recursing into folder: ${file.name}`);
-          await this.recursiveListFiles(file.id, accumulator);
+          await this.recursiveListFiles(file.id, accumulator, subfolderPath, ignoresFolder);
         } else {
           // Add document files
-          accumulator.push(file);
+          accumulator.push(toDriveFile(file, folderPath));
           console.log(`  📄 Found: ${file.name} (${file.mimeType})`);
         }
       }
-    } catch (error) {
-      console.error('❌ Error listing Google Drive files:', error);
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+  }
+
+  async getChangeCursor(folderId: string): Promise<string> {
+    const data = await this.getJson('https://www.googleapis.com/drive/v3/changes/startPageToken');
+    return data.startPageToken;
+  }
+
+  // The Changes API reports changes across the whole Drive, so each changed file is kept
+  // only if the folder is one of its ancestors. Files that left the folder count as removed.
+  async listChanges(folderId: string, pageToken: string): Promise<SourceChanges> {
+    const changed = new Map<string, GoogleDriveFile>();
+    const removedIds = new Set<string>();
+    const folders = new Map<string, FolderInfo>();
+    const fields = `nextPageToken,newStartPageToken,changes(fileId,removed,file(${FILE_FIELDS},parents,trashed))`;
+
+    let nextCursor = pageToken;
+    let currentToken: string | undefined = pageToken;
+    while (currentToken) {
+      const url = `https://www.googleapis.com/drive/v3/changes?pageToken=${encodeURIComponent(currentToken)}`
+        + `&includeRemoved=true&spaces=drive&pageSize=1000&fields=${encodeURIComponent(fields)}`;
+      const data = await this.getJson(url);
+
+      for (const change of data.changes || []) {
+        const file = change.file;
+        if (file?.mimeType === FOLDER_MIME_TYPE) continue;
+
+        const location = !change.removed && file && !file.trashed
+          ? await this.resolveFolderPath(file.parents?.[0], folderId, folders)
+          : null;
+        if (location?.withinRoot) {
+          changed.set(file.id, toDriveFile(file, location.path));
+          removedIds.delete(file.id);
+        } else {
+          changed.delete(change.fileId);
+          removedIds.add(change.fileId);
+        }
+      }
+
+      currentToken = data.nextPageToken;
+      if (data.newStartPageToken) nextCursor = data.newStartPageToken;
+    }
+
+    console.log(`🔁 Drive changes: ${changed.size} changed, ${removedIds.size} removed or out of folder`);
+    return { changed: Array.from(changed.values()), removedIds: Array.from(removedIds), nextCursor };
+  }
+
+  // Every change in the Drive since `pageToken`, with the roots among `rootIds` that each changed
+  // file or folder is now in. Removed and trashed files are in none.
+  async listChangesByRoot(
+    pageToken: string,
+    rootIds: string[]
+  ): Promise<{ changes: Array<{ fileId: string; rootIds: string[] }>; nextCursor: string }> {
+    const changes = new Map<string, string[]>();
+    const folders = new Map<string, FolderInfo>();
+    const fields = 'nextPageToken,newStartPageToken,changes(fileId,removed,file(parents,trashed))';
+
+    let nextCursor = pageToken;
+    let currentToken: string | undefined = pageToken;
+    while (currentToken) {
+      const url = `https://www.googleapis.com/drive/v3/changes?pageToken=${encodeURIComponent(currentToken)}`
+        + `&includeRemoved=true&spaces=drive&pageSize=1000&fields=${encodeURIComponent(fields)}`;
+      const data = await this.getJson(url);
+
+      for (const change of data.changes || []) {
+        const file = change.file;
+        const within: string[] = [];
+        if (!change.removed && file && !file.trashed) {
+          for (const rootId of rootIds) {
+            if ((await this.resolveFolderPath(file.parents?.[0], rootId, folders)).withinRoot) within.push(rootId);
+          }
+        }
+        changes.set(change.fileId, within);
+      }
+
+      currentToken = data.nextPageToken;
+      if (data.newStartPageToken) nextCursor = data.newStartPageToken;
+    }
+
+    return { changes: Array.from(changes, ([fileId, roots]) => ({ fileId, rootIds: roots })), nextCursor };
+  }
+
+  // Asks Drive to POST change notifications for the whole Drive to `address` until the
+  // channel expires. Drive echoes `token` in every notification so they can be verified.
+  async watchChanges(
+    pageToken: string,
+    channel: { id: string; token: string; address: string; expiration: number }
+  ): Promise<{ resourceId: string; expiration: number }> {
+    const response = await this.authorizedFetch(
+      `https://www.googleapis.com/drive/v3/changes/watch?pageToken=${encodeURIComponent(pageToken)}`,
+      {
+        method: 'POST',
+        body: { ...channel, type: 'web_hook', expiration: String(channel.expiration) },
+      }
+    );
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Google Drive watch error: ${response.status} ${response.statusText} - ${errorBody}`);
+    }
+
+    const data = (await response.json()) as any;
+    return { resourceId: data.resourceId, expiration: parseInt(data.expiration, 10) };
+  }
+
+  async stopChannel(channelId: string, resourceId: string): Promise<void> {
+    const response = await this.authorizedFetch('https://www.googleapis.com/drive/v3/channels/stop', {
+      method: 'POST',
+      body: { id: channelId, resourceId },
+    });
+    // An expired or already stopped channel is not an error
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Google Drive channel stop error: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  // Only Google Docs are backfilled: their revisions can be exported as text. Drive may merge
+  // older revisions of a Doc, so the history is not necessarily every edit.
+  async listRevisions(file: SourceFile, sinceRevision: string | null): Promise<SourceRevision[]> {
+    if (file.mimeType !== GOOGLE_DOC_MIME_TYPE) return [];
+
+    const revisions: SourceRevision[] = [];
+    const fields = 'nextPageToken,revisions(id,modifiedTime,lastModifyingUser(displayName,emailAddress))';
+    let pageToken: string | undefined;
+    do {
+      let url = `https://www.googleapis.com/drive/v3/files/${file.id}/revisions?pageSize=200&fields=${encodeURIComponent(fields)}`;
+      if (pageToken) url += `&pageToken=${encodeURIComponent(pageToken)}`;
+
+      const data = await this.getJson(url);
+      for (const revision of data.revisions || []) {
+        revisions.push({
+          id: revision.id,
+          kind: 'revision',
+          author: revision.lastModifyingUser?.displayName || 'Unknown',
+          authorEmail: revision.lastModifyingUser?.emailAddress,
+          message: '',
+          committedAt: revision.modifiedTime,
+        });
+      }
+      pageToken = data.nextPageToken;
+    } while (pageToken);
+
+    const since = sinceRevision ? revisions.findIndex(revision => revision.id === sinceRevision) : -1;
+    return revisions.slice(since + 1);
+  }
+
+  async locateFile(fileId: string): Promise<{ path: string } | null> {
+    const response = await this.authorizedFetch(`https://www.googleapis.com/drive/v3/files/${fileId}?fields=trashed,parents`);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Google Drive API error: ${response.status} ${response.statusText}`);
     }
+
+    const file = (await response.json()) as any;
+    if (file.trashed) return null;
+    const location = await this.resolveFolderPath(file.parents?.[0], null, new Map());
+    return { path: location.path };
+  }
+
+  // Builds a folder's path from folder names, walking up until the root (or the top of the Drive).
+  // Files have a single parent in Drive, so only the first parent is followed. The walk stops at a
+  // folder the user cannot read: a root the user monitors is readable, so the file is outside it.
+  private async resolveFolderPath(
+    folderId: string | undefined,
+    rootId: string | null,
+    folders: Map<string, FolderInfo>
+  ): Promise<{ path: string; withinRoot: boolean }> {
+    const names: string[] = [];
+    const visited = new Set<string>();
+    let current = folderId;
+    while (current && !visited.has(current)) {
+      if (current === rootId) return { path: names.reverse().join('/'), withinRoot: true };
+      visited.add(current);
+
+      let folder = folders.get(current);
+      if (!folder) {
+        folder = await this.getFolderInfo(current);
+        folders.set(current, folder);
+      }
+      if (folder.unreadable) break;
+      names.push(folder.name);
+      current = folder.parents[0];
+    }
+    return { path: names.reverse().join('/'), withinRoot: false };
   }
+
+  private async getFolderInfo(folderId: string): Promise<FolderInfo> {
+    if (!this.accessToken) {
+      throw new Error('Google Drive access token not set');
+    }
+
+    const response = await this.authorizedFetch(`https://www.googleapis.com/drive/v3/files/${folderId}?fields=name,parents`);
+    // A rate limit that outlasted the retries is still an error
+    if (response.status === 404 || (response.status === 403 && !(await isRetryable(response)))) {
+      return { name: '', parents: [], unreadable: true };
+    }
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Google Drive API error: ${response.status} ${response.statusText} - ${errorBody}`);
+    }
+
+    const data = (await response.json()) as any;
+    return { name: data.name, parents: data.parents || [] };
+  }
+
+  private async getJson(url: string): Promise<any> {
+    if (!this.accessToken) {
+      throw new Error('Google Drive access token not set');
+    }
+
+    const response = await this.authorizedFetch(url);
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Google Drive API error: ${response.status} ${response.statusText} - ${errorBody}`);
+    }
+
+    return response.json();
+  }
+
+  // Exports and downloads share a concurrency limit. The body is read before the slot is
+  // released, so the limit covers the transfer and not just the response headers.
+  private exportFetch(url: string): Promise<Response> {
+    return this.exportLimiter.run(async () => {
+      const response = await this.authorizedFetch(url);
+      const body = response.status === 204 ? null : await response.arrayBuffer();
+      return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+    });
+  }
+
+  // Retries rate-limited (429, or 403 with a rate limit reason) and 5xx responses and network
+  // errors with exponential backoff, honouring Retry-After. Other responses are returned as is.
+  private async authorizedFetch(url: string, init: { method?: string; body?: unknown } = {}): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | null = null;
+      try {
+        response = await fetch(url, {
+          method: init.method || 'GET',
+          headers: {
+            Authorization: `Bearer ${this.accessToken}`,
+            ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          },
+          body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+        });
+      } catch (error) {
+        if (attempt >= MAX_RETRIES) throw error;
+      }
+
+      if (response && (attempt >= MAX_RETRIES || !(await isRetryable(response)))) {
+        return response;
+      }
+
+      const delay = backoffDelay(attempt, response?.headers.get('retry-after') ?? null);
+      console.warn(`  ⏳ Google API ${response ? response.status : 'network error'}, retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+      await sleep(delay);
+    }
+  }
+
   async exportGoogleDocText(fileId: string): Promise<string | null> {
   if (!this.accessToken) {
     console.warn('Google Drive access token not set.');
@@ -73,10 +447,7 @@ export class GoogleDriveService {
   }
 
   try {
-    const response = await fetch(
-      `https://www.googleapis.com/drive/v3/files/${fileId}/export?mimeType=text/plain`,
-      { headers: { Authorization: `Bearer ${this.accessToken}` } }
-    );
+    const response = await this.exportFetch(`https://www.googleapis.com/drive/v3/files/${fileId}/export?mimeType=text/plain`);
 
     if (!response.ok) {
       const errorBody = await response.text();
@@ -90,21 +461,111 @@ export class GoogleDriveService {
   }
 }
 
-  async downloadFile(fileId: string): Promise<Buffer | null> {
+  async exportGoogleDocRevisionText(fileId: string, revisionId: string): Promise<string | null> {
     if (!this.accessToken) {
       console.warn('Google Drive access token not set.');
       return null;
     }
 
     try {
-      const response = await fetch(
-        `https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`,
-        {
-          headers: {
-            Authorization: `Bearer ${this.accessToken}`,
-          },
-        }
+      const revision = await this.getJson(
+        `https://www.googleapis.com/drive/v3/files/${fileId}/revisions/${revisionId}?fields=exportLinks`
       );
+      const exportLink = revision.exportLinks?.['text/plain'];
+      if (!exportLink) throw new Error(`Revision ${revisionId} has no plain text export`);
+
+      const response = await this.exportFetch(exportLink);
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`Export error: ${response.status} ${response.statusText} - ${errorBody}`);
+      }
+
+      return await response.text();
+    } catch (err) {
+      console.error('Error exporting Google Doc revision as text:', err);
+      return null;
+    }
+  }
+
+  async listSpreadsheetTabs(fileId: string): Promise<SpreadsheetTab[] | null> {
+    if (!this.accessToken) {
+      console.warn('Google Drive access token not set.');
+      return null;
+    }
+
+    try {
+      const response = await this.exportFetch(`https://sheets.googleapis.com/v4/spreadsheets/${fileId}?fields=${encodeURIComponent('sheets.properties(sheetId,title,index)')}`);
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`Sheets API error: ${response.status} ${response.statusText} - ${errorBody}`);
+      }
+
+      const data = (await response.json()) as any;
+      return (data.sheets || [])
+        .map((sheet: any) => ({
+          sheetId: sheet.properties.sheetId,
+          title: sheet.properties.title,
+          index: sheet.properties.index ?? 0,
+        }))
+        .sort((a: SpreadsheetTab, b: SpreadsheetTab) => a.index - b.index);
+    } catch (err) {
+      console.error('Error listing spreadsheet tabs:', err);
+      return null;
+    }
+  }
+
+  // Drive's files.export only returns the first tab as CSV, so each tab is exported by gid
+  async exportSpreadsheetTabCsv(fileId: string, sheetId: number): Promise<string | null> {
+    if (!this.accessToken) {
+      console.warn('Google Drive access token not set.');
+      return null;
+    }
+
+    try {
+      const response = await this.exportFetch(`https://docs.google.com/spreadsheets/d/${fileId}/export?format=csv&gid=${sheetId}`);
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`Export error: ${response.status} ${response.statusText} - ${errorBody}`);
+      }
+
+      return await response.text();
+    } catch (err) {
+      console.error('Error exporting spreadsheet tab as CSV:', err);
+      return null;
+    }
+  }
+
+  async getPresentation(fileId: string): Promise<any | null> {
+    if (!this.accessToken) {
+      console.warn('Google Drive access token not set.');
+      return null;
+    }
+
+    try {
+      const response = await this.exportFetch(`https://slides.googleapis.com/v1/presentations/${fileId}?fields=${encodeURIComponent('slides(objectId,pageElements)')}`);
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        throw new Error(`Slides API error: ${response.status} ${response.statusText} - ${errorBody}`);
+      }
+
+      return await response.json();
+    } catch (err) {
+      console.error('Error fetching presentation:', err);
+      return null;
+    }
+  }
+
+  async downloadFile(fileId: string): Promise<Buffer | null> {
+    if (!this.accessToken) {
+      console.warn('Google Drive access token not set.');
+      return null;
+    }
+
+    try {
+      const response = await this.exportFetch(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`);
 
       if (!response.ok) {
         throw new Error(`Google Drive API error: ${response.statusText}`);
@@ -0,0 +1,920 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { db, Database } from '../db';
+import { getExplanationGenerator, generateAndStoreExplanation } from './explanationGenerator';
+import { extractContent, isSupportedMimeType, ExtractionError, SourceFetchError } from './contentExtractor';
+import { DocumentSource, SourceFile, SourceRevision, getDocumentSource } from './documentSource';
+import { DryRunStore, IngestionPreview } from './dryRunStore';
+import { buildMetadataSnapshot, compareMetadata } from './sharing';
+import { normalizeContent, normalizationSteps } from './contentNormalizer';
+import { FileRuleMatcher } from './fileRules';
+import { isReorderOnly } from './diffHelper';
+import { notificationService } from './notifications';
+import {
+  ChangeRecord,
+  ChangeReason,
+  Document,
+  DocumentVersion,
+  ExplanationInput,
+  IngestionItemOutcome,
+  MonitoredFolder,
+  NormalizationStep,
+  SyncCursor,
+  SyncMode,
+} from '../types';
+
+// Everything a run reads or writes. Real runs use the database; dry runs use a DryRunStore.
+export type IngestionStore = Pick<
+  Database,
+  | 'updateIngestionRun'
+  | 'adoptDocumentsForFolder'
+  | 'getDocumentCountForFolder'
+  | 'getSyncCursor'
+  | 'saveSyncCursor'
+  | 'getDocumentBySourceId'
+  | 'getActiveDocumentsForFolder'
+  | 'createDocument'
+  | 'updateDocument'
+  | 'createDocumentVersion'
+  | 'getDocumentVersion'
+  | 'createChangeRecord'
+  | 'createIngestionRunItem'
+  | 'transaction'
+>;
+
+// Queue explanation generation (non-blocking)
+function queueExplanation(
+  changeRecord: ChangeRecord,
+  documentName?: string,
+  previousContent?: string,
+  newContent?: string
+): void {
+  const generator = getExplanationGenerator();
+  
+  let parsedReason = {};
+  if (changeRecord.reason) {
+    try {
+      parsedReason = JSON.parse(changeRecord.reason);
+    } catch {
+      parsedReason = {};
+    }
+  }
+  
+  const input: ExplanationInput = {
+    changeRecord,
+    documentName,
+    previousContent,
+    newContent,
+    reason: parsedReason,
+  };
+  
+  generateAndStoreExplanation(changeRecord.id, generator, input).catch((err) => {
+    console.error(`Failed to generate explanation for ${changeRecord.id}:`, err);
+  });
+}
+
+function computeHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// Hashes are taken of the normalized text, so noise edits do not count as content changes
+function contentHash(content: string, steps: NormalizationStep[]): string {
+  return `sha256:${computeHash(normalizeContent(content, steps))}`;
+}
+
+// A document hashed before normalization, or with other normalizations, is re-hashed from its
+// stored content so that a configuration change is not reported as a content change
+async function isSameNormalizedContent(store: IngestionStore, document: Document, hash: string, steps: NormalizationStep[]): Promise<boolean> {
+  const version = document.currentVersionId ? await store.getDocumentVersion(document.currentVersionId) : null;
+  return !!version && version.normalizations !== JSON.stringify(steps) && contentHash(version.content, steps) === hash;
+}
+
+// Folder paths are relative to the source root; the root itself is shown as "/"
+function displayPath(folderPath?: string): string {
+  return folderPath ? `/${folderPath}` : '/';
+}
+
+function revisionReason(revision: SourceRevision | undefined): Pick<ChangeReason, 'commit' | 'revision'> {
+  if (!revision) return {};
+  if (revision.kind === 'revision') {
+    return {
+      revision: {
+        id: revision.id,
+        author: revision.author,
+        authorEmail: revision.authorEmail,
+        revisedAt: revision.committedAt,
+      },
+    };
+  }
+  return {
+    commit: {
+      sha: revision.id,
+      author: revision.author,
+      authorEmail: revision.authorEmail,
+      message: revision.message,
+      committedAt: revision.committedAt,
+    },
+  };
+}
+
+function revisionLabel(revision: SourceRevision): string {
+  return revision.kind === 'commit'
+    ? `Commit ${revision.id.substring(0, 7)}`
+    : `Revision of ${revision.committedAt.substring(0, 10)}`;
+}
+
+function firstLine(message: string): string {
+  return message.split('\n')[0];
+}
+
+function modifiedSummary(name: string, revision: SourceRevision | undefined, historical?: boolean): string {
+  if (revision?.kind === 'commit') {
+    return `Document "${name}" changed in commit ${revision.id.substring(0, 7)}: ${firstLine(revision.message)}`;
+  }
+  if (revision) return `Document "${name}" changed on ${revision.committedAt.substring(0, 10)} (before monitoring started)`;
+  return historical
+    ? `Document "${name}" content has changed (before monitoring started)`
+    : `Document "${name}" content has changed`;
+}
+
+// Versions read from history keep the time the content was written
+function versionTime(file: SourceFile, revision: SourceRevision | undefined, historical?: boolean): string {
+  if (revision) return revision.committedAt;
+  return historical ? file.modifiedTime : new Date().toISOString();
+}
+
+// A file whose version and modifiedTime match the last fetch has not changed, so its content
+// need not be fetched again. Name and path are compared too: renaming a parent folder moves
+// the file without bumping its version.
+function isUnchangedSinceLastFetch(document: Document, file: SourceFile, folder: MonitoredFolder): boolean {
+  return !!file.version
+    && file.version === document.sourceVersion
+    && file.modifiedTime === document.lastModified
+    && file.name === document.fileName
+    && (file.path === undefined || file.path === document.folderPath)
+    && document.folderId === folder.id
+    && !document.isDeleted;
+}
+
+// When one file has several changes, its item reports the most significant one
+const OUTCOME_RANK: IngestionItemOutcome[] = ['unchanged', 'metadata', 'moved', 'renamed', 'modified', 'new'];
+
+// Incremental runs can miss changes the change feed does not describe per file (e.g. a subfolder
+// moved out of the root), so a full listing is forced at least this often
+const FULL_SYNC_INTERVAL_HOURS = parseFloat(process.env.FULL_SYNC_INTERVAL_HOURS || '24');
+
+// Files whose content is fetched together before their writes
+const FETCH_BATCH_SIZE = Math.max(1, parseInt(process.env.INGEST_FETCH_BATCH_SIZE || '8', 10) || 8);
+
+export interface BackfillOptions {
+  // Keep at most this many of the newest revisions
+  maxRevisions?: number;
+  // Keep revisions from the last this many months
+  months?: number;
+}
+
+export interface IngestionOptions {
+  // List the whole root even if an incremental sync is possible
+  fullSync?: boolean;
+  // On a baseline run, also record each file's earlier revisions (sources with history only)
+  backfill?: BackfillOptions;
+  // Read only the change feed, even when a periodic full sync is due; the run fails if the feed
+  // cannot be read. Used by push notifications, which name the changed files.
+  incrementalOnly?: boolean;
+}
+
+function selectBackfillRevisions(revisions: SourceRevision[], backfill: BackfillOptions): SourceRevision[] {
+  let selected = revisions;
+  if (backfill.months) {
+    const cutoff = new Date();
+    cutoff.setMonth(cutoff.getMonth() - backfill.months);
+    selected = selected.filter(revision => Date.parse(revision.committedAt) >= cutoff.getTime());
+  }
+  return backfill.maxRevisions ? selected.slice(-backfill.maxRevisions) : selected;
+}
+
+// One state of a file to ingest; replayed history carries the revision it was read at
+interface Snapshot {
+  file: SourceFile;
+  revision?: SourceRevision;
+  historical?: boolean;
+}
+
+function chooseSyncMode(
+  source: DocumentSource,
+  cursor: SyncCursor | null,
+  isBaselineRun: boolean,
+  options: IngestionOptions
+): SyncMode {
+  if (!source.listChanges || !cursor || isBaselineRun || options.fullSync) return 'full';
+  if (options.incrementalOnly) return 'incremental';
+  if (!cursor.lastFullSyncAt) return 'full';
+  const hoursSinceFullSync = (Date.now() - Date.parse(cursor.lastFullSyncAt)) / (60 * 60 * 1000);
+  return hoursSinceFullSync >= FULL_SYNC_INTERVAL_HOURS ? 'full' : 'incremental';
+}
+
+// Folders with a run in progress; a second run of the same folder would race on its documents
+const foldersInProgress = new Set<string>();
+
+export function isFolderIngesting(folderId: string): boolean {
+  return foldersInProgress.has(folderId);
+}
+
+// Ingestion logic with baseline detection, deletion detection, reasons, and severity
+export async function startIngestion(
+  runId: string,
+  folder: MonitoredFolder,
+  options: IngestionOptions = {}
+): Promise<void> {
+  if (foldersInProgress.has(folder.id)) {
+    console.warn(`⚠️  Ingestion of "${folder.name}" already in progress; run ${runId} not started`);
+    await db.updateIngestionRun(runId, {
+      status: 'failed',
+      error: 'Another ingestion of this folder is already in progress',
+    });
+    return;
+  }
+  foldersInProgress.add(folder.id);
+
+  try {
+    // Every committed change record is explained and, per the folder's settings, notified
+    await ingestFolder(runId, folder, options, db, (...args) => {
+      queueExplanation(...args);
+      notificationService.notifyChange(folder, args[0]);
+    });
+  } finally {
+    foldersInProgress.delete(folder.id);
+  }
+}
+
+// Runs the full detection path without writing documents, versions, change records or the sync
+// cursor, and returns the change records the run would create with deterministic explanations.
+// The folder does not have to be saved yet.
+export async function previewIngestion(
+  folder: MonitoredFolder,
+  options: IngestionOptions = {}
+): Promise<IngestionPreview> {
+  const store = new DryRunStore();
+  console.log(`\n🧪 DRY RUN for folder "${folder.name}" - nothing will be written`);
+  await ingestFolder('dry-run', folder, options, store, store.queueExplanation);
+  return store.preview();
+}
+
+async function ingestFolder(
+  runId: string,
+  folder: MonitoredFolder,
+  options: IngestionOptions,
+  store: IngestionStore,
+  explain: typeof queueExplanation
+): Promise<void> {
+  const source = getDocumentSource(folder.sourceType);
+  const rootId = folder.rootId;
+  try {
+    console.log(`\n🚀 Starting ingestion run ${runId} for folder "${folder.name}" (${source.type} root ${rootId})`);
+    
+    // Check that the source can be read (authenticated, directory exists)
+    const unavailableReason = await source.checkAvailability(rootId);
+    if (unavailableReason) {
+      console.error(`❌ ${unavailableReason}. Cannot start ingestion.`);
+      await store.updateIngestionRun(runId, {
+        status: 'failed',
+        error: unavailableReason,
+      });
+      return;
+    }
+    
+    await store.updateIngestionRun(runId, { status: 'in_progress' });
+
+    await store.adoptDocumentsForFolder(folder);
+
+    // Check if this is a baseline run (no documents exist for this folder, including deleted ones)
+    // This ensures baseline only happens on the first ingestion of each folder
+    const totalDocCount = await store.getDocumentCountForFolder(folder.id);
+    const isBaselineRun = totalDocCount === 0;
+    if (isBaselineRun) {
+      console.log('📋 BASELINE RUN: First ingestion of this folder - will suppress individual CREATED records');
+    }
+
+    // Fetch files from the source: everything on a full sync, only what changed since
+    // the stored cursor on an incremental one
+    const syncStartedAt = new Date().toISOString();
+    const syncCursor = source.listChanges ? await store.getSyncCursor(source.type, rootId) : null;
+    let syncMode = chooseSyncMode(source, syncCursor, isBaselineRun, options);
+    if (options.incrementalOnly && syncMode !== 'incremental') {
+      throw new Error('An incremental sync is not possible for this folder yet; it needs a full run first');
+    }
+    let files: SourceFile[] = [];
+    let removedIds: Set<string> | null = null;
+    let nextCursor: string | null = null;
+
+    // Folders the rules exclude are not traversed; each is reported once, with the rule
+    const rules = new FileRuleMatcher(folder.fileRules);
+    const normalization = folder.normalization ?? normalizationSteps;
+    const ignoredFolders = new Map<string, string>();
+    const ignoresFolder = (folderPath: string) => {
+      const reason = rules.ignoresFolder(folderPath);
+      if (reason) ignoredFolders.set(folderPath, reason);
+      return reason !== null;
+    };
+
+    if (syncMode === 'incremental') {
+      console.log(`🔁 INCREMENTAL RUN: Fetching changes from ${source.type} since the last sync...`);
+      try {
+        const changes = await source.listChanges!(rootId, syncCursor!.cursor);
+        files = changes.changed;
+        removedIds = new Set(changes.removedIds);
+        nextCursor = changes.nextCursor;
+      } catch (error) {
+        if (options.incrementalOnly) throw error;
+        // An expired or invalid cursor is recovered from by listing everything
+        console.warn(`  ⚠️  Change feed unavailable, falling back to a full sync:`, error);
+        syncMode = 'full';
+      }
+    }
+
+    if (syncMode === 'full') {
+      console.log(`📥 Fetching files from ${source.type}...`);
+      // The cursor is taken before listing so changes made during the listing are seen next time
+      nextCursor = source.getChangeCursor ? await source.getChangeCursor(rootId) : null;
+      files = await source.listFiles(rootId, ignoresFolder);
+    }
+    await store.updateIngestionRun(runId, { syncMode });
+    console.log(`📦 Received ${files.length} ${syncMode === 'incremental' ? 'changed ' : ''}files from ${source.type}`);
+
+    // Build set of current source IDs for deletion detection
+    const currentSourceIds = new Set<string>();
+
+    let changesDetected = 0;
+    let docsProcessed = 0;
+    let filesFetched = 0;
+    let filesSkipped = 0;
+    const fileFailures: string[] = [];
+    let fetchErrors = 0;
+
+    const logItem = (
+      file: { id: string; name: string },
+      outcome: IngestionItemOutcome,
+      reason?: string,
+      documentId?: string
+    ) => store.createIngestionRunItem({
+      id: uuidv4(),
+      runId,
+      sourceId: file.id,
+      fileName: file.name,
+      documentId,
+      outcome,
+      reason,
+      createdAt: new Date().toISOString(),
+    });
+
+    // Sharing, owners and description come with the listing, so they are compared even when the
+    // content is not fetched. Returns a note for the run log when they changed.
+    const checkMetadata = async (document: Document, file: SourceFile): Promise<string | null> => {
+      const snapshot = buildMetadataSnapshot(file);
+      if (!snapshot) return null;
+      const serialized = JSON.stringify(snapshot);
+      const owners = file.owners && JSON.stringify(file.owners);
+      if (serialized === document.metadataSnapshot && (!owners || owners === document.owners)) return null;
+
+      // The first snapshot of a document, and changes made while it was deleted, are only stored
+      const change = document.metadataSnapshot && !isBaselineRun && !document.isDeleted
+        ? compareMetadata(
+          JSON.parse(document.metadataSnapshot),
+          snapshot,
+          document.owners ? JSON.parse(document.owners) : file.owners || [],
+          file.owners || []
+        )
+        : null;
+      const changeRecord: ChangeRecord | null = change && {
+        id: uuidv4(),
+        documentId: document.id,
+        newVersionId: document.currentVersionId,
+        changeType: 'metadata',
+        detectedAt: new Date().toISOString(),
+        summary: `Document "${file.name}" ${change.summary}`,
+        reason: JSON.stringify(change.reason),
+        severity: change.severity,
+      };
+
+      await store.transaction(async () => {
+        if (changeRecord) await store.createChangeRecord(changeRecord);
+        await store.updateDocument(document.id, owners ? { metadataSnapshot: serialized, owners } : { metadataSnapshot: serialized });
+      });
+      if (!change || !changeRecord) return null;
+
+      console.log(`  🔐 Metadata change detected: ${file.name} (${change.summary})`);
+      explain(changeRecord, file.name);
+      changesDetected++;
+      return `Metadata changed: ${change.summary}`;
+    };
+
+    // Content is fetched for a batch of files at once, so exports overlap within the source's own
+    // limit (DRIVE_EXPORT_CONCURRENCY for Drive); writes still happen one file at a time, in order
+    let batch: Array<{ known: Document | null; metadataNote: string | null; snapshots: Snapshot[] }> = [];
+    const flushBatch = async () => {
+      const items = batch;
+      batch = [];
+      const fetched = await Promise.all(items.map(item => Promise.all(item.snapshots.map(({ file }) =>
+        extractContent(file, source).then(content => ({ content }), (error: unknown) => ({ error }))
+      ))));
+      for (const [itemIndex, { known, metadataNote, snapshots }] of items.entries()) {
+        for (const [snapshotIndex, { file, revision, historical }] of snapshots.entries()) {
+          // Download and extract content
+          let content: string;
+          filesFetched++;
+          try {
+            const result = fetched[itemIndex][snapshotIndex];
+            if ('error' in result) throw result.error;
+            content = result.content;
+          } catch (error) {
+            if (!(error instanceof ExtractionError || error instanceof SourceFetchError)) throw error;
+            console.warn(`  ⚠️  Could not ${error instanceof SourceFetchError ? 'fetch' : 'extract'} ${file.name}: ${error.message}`);
+            fileFailures.push(`${file.name}: ${error.message}`);
+            if (error instanceof SourceFetchError) fetchErrors++;
+            await logItem(file, error instanceof SourceFetchError ? 'api-error' : 'extraction-failed', error.message, known?.id);
+            continue;
+          }
+
+          if (!content) {
+            fileFailures.push(`${file.name}: no text extracted`);
+            await logItem(file, 'extraction-failed', 'No text could be extracted (the document may be empty)', known?.id);
+            continue;
+          }
+
+          // Replayed and backfilled revisions name their own author; otherwise the file's last modifier
+          const modifiedBy = revision ? { name: revision.author, email: revision.authorEmail } : file.modifiedBy;
+          const owners = file.owners && JSON.stringify(file.owners);
+
+          let outcome: IngestionItemOutcome = 'unchanged';
+          const notes: string[] = revision ? [revisionLabel(revision)] : [];
+          const note = (detected: IngestionItemOutcome, text: string) => {
+            if (OUTCOME_RANK.indexOf(detected) > OUTCOME_RANK.indexOf(outcome)) outcome = detected;
+            notes.push(text);
+          };
+          if (metadataNote && !revision) note('metadata', metadataNote);
+
+          const hash = contentHash(content, normalization);
+
+          // Log file details for debugging
+          console.log(`  📊 Processing: ${file.name} | mime: ${file.mimeType} | content length: ${content.length} | hash: ${hash.substring(0, 20)}...`);
+
+          // The file's writes are atomic, so a crash cannot leave a change record pointing at a
+          // version the document does not have. Explanations are queued once they are committed.
+          const explanations: Array<Parameters<typeof explain>> = [];
+          await store.transaction(async () => {
+            // Check if document exists (including soft-deleted ones that reappeared)
+            let document = await store.getDocumentBySourceId(source.type, file.id);
+
+            if (!document) {
+              // New document
+              const docId = uuidv4();
+              const snapshot = buildMetadataSnapshot(file);
+              const versionId = uuidv4();
+
+              document = {
+                id: docId,
+                folderId: folder.id,
+                sourceId: file.id,
+                sourceType: source.type,
+                sourceRoot: rootId,
+                sourceRevision: file.revision,
+                sourceVersion: file.version,
+                folderPath: file.path,
+                fileName: file.name,
+                mimeType: file.mimeType,
+                lastModified: file.modifiedTime,
+                currentVersionId: versionId,
+                currentHash: hash,
+                owners,
+                metadataSnapshot: snapshot ? JSON.stringify(snapshot) : undefined,
+              };
+
+              await store.createDocument(document);
+
+              const version: DocumentVersion = {
+                id: versionId,
+                documentId: docId,
+                hash,
+                content,
+                createdAt: versionTime(file, revision, historical),
+                historical,
+                modifiedBy: modifiedBy?.name,
+                modifiedByEmail: modifiedBy?.email,
+                normalizations: JSON.stringify(normalization),
+              };
+
+              await store.createDocumentVersion(version);
+              note('new', isBaselineRun ? 'Indexed in the baseline' : 'Added to the folder');
+
+              // Only create CREATED change record if not a baseline run
+              if (!isBaselineRun) {
+                const reason: ChangeReason = { ...revisionReason(revision), modifiedBy };
+                const changeRecord: ChangeRecord = {
+                  id: uuidv4(),
+                  documentId: docId,
+                  newVersionId: versionId,
+                  changeType: 'created',
+                  detectedAt: new Date().toISOString(),
+                  summary: `Document "${file.name}" added to the system`,
+                  reason: JSON.stringify(reason),
+                  severity: 'medium',
+                };
+
+                await store.createChangeRecord(changeRecord);
+                explanations.push([changeRecord, file.name, undefined, content]);
+                changesDetected++;
+              }
+            } else {
+              // Document exists - check if it was moved back in, previously deleted (reappeared) or moved
+              if (document.isDeleted && document.movedOutOfScope) {
+                console.log(`  📂 Document moved back into the folder: ${file.name}`);
+                await store.updateDocument(document.id, { isDeleted: false, deletedAt: null, movedOutOfScope: false });
+                note('moved', `Moved back into the folder (${displayPath(file.path)})`);
+
+                if (!isBaselineRun) {
+                  const reason: ChangeReason = { movedIntoScope: true, newPath: file.path };
+                  const changeRecord: ChangeRecord = {
+                    id: uuidv4(),
+                    documentId: document.id,
+                    newVersionId: document.currentVersionId,
+                    changeType: 'moved',
+                    detectedAt: new Date().toISOString(),
+                    summary: `Document "${file.name}" moved back into the folder (${displayPath(file.path)})`,
+                    reason: JSON.stringify(reason),
+                    severity: 'medium',
+                  };
+                  await store.createChangeRecord(changeRecord);
+                  explanations.push([changeRecord, file.name]);
+                  changesDetected++;
+                }
+              } else if (document.isDeleted) {
+                console.log(`  🔄 Document reappeared: ${file.name}`);
+                await store.updateDocument(document.id, { isDeleted: false, deletedAt: null });
+                note('new', 'Reappeared in the folder');
+          
+                if (!isBaselineRun) {
+                  const reason: ChangeReason = { modifiedBy };
+                  const changeRecord: ChangeRecord = {
+                    id: uuidv4(),
+                    documentId: document.id,
+                    newVersionId: document.currentVersionId,
+                    changeType: 'created',
+                    detectedAt: new Date().toISOString(),
+                    summary: `Document "${file.name}" reappeared in the folder`,
+                    reason: JSON.stringify(reason),
+                    severity: 'medium',
+                  };
+                  await store.createChangeRecord(changeRecord);
+                  explanations.push([changeRecord, file.name, undefined, content]);
+                  changesDetected++;
+                }
+              } else if (file.path !== undefined && document.folderPath != null && file.path !== document.folderPath) {
+                console.log(`  📂 Move detected: ${file.name} ${displayPath(document.folderPath)} -> ${displayPath(file.path)}`);
+                note('moved', `Moved from ${displayPath(document.folderPath)} to ${displayPath(file.path)}`);
+                const reason: ChangeReason = {
+                  oldPath: document.folderPath,
+                  newPath: file.path,
+                };
+                const moveRecord: ChangeRecord = {
+                  id: uuidv4(),
+                  documentId: document.id,
+                  newVersionId: document.currentVersionId,
+                  changeType: 'moved',
+                  detectedAt: new Date().toISOString(),
+                  summary: `Document "${file.name}" moved from ${displayPath(document.folderPath)} to ${displayPath(file.path)}`,
+                  reason: JSON.stringify(reason),
+                  severity: 'low',
+                };
+                await store.createChangeRecord(moveRecord);
+                explanations.push([moveRecord, file.name]);
+                changesDetected++;
+              }
+
+              if (file.path !== undefined && file.path !== document.folderPath) {
+                await store.updateDocument(document.id, { folderPath: file.path });
+              }
+
+              // A document moved here from another monitored folder now belongs to this one
+              if (document.folderId !== folder.id || document.sourceRoot !== rootId) {
+                await store.updateDocument(document.id, { folderId: folder.id, sourceRoot: rootId });
+              }
+
+              // Check for rename and/or content change
+              const renamed = file.name !== document.fileName;
+              let contentChanged = hash !== document.currentHash;
+              if (contentChanged && await isSameNormalizedContent(store, document, hash, normalization)) {
+                await store.updateDocument(document.id, { currentHash: hash });
+                contentChanged = false;
+              }
+
+              if (renamed) {
+                console.log(`  🏷️  Rename detected: "${document.fileName}" -> "${file.name}"`);
+                note('renamed', `Renamed from "${document.fileName}"`);
+                const reason: ChangeReason = {
+                  nameChanged: true,
+                  oldName: document.fileName,
+                  newName: file.name,
+                  modifiedBy,
+                };
+                const renameRecord: ChangeRecord = {
+                  id: uuidv4(),
+                  documentId: document.id,
+                  newVersionId: document.currentVersionId,
+                  changeType: 'renamed',
+                  detectedAt: new Date().toISOString(),
+                  summary: `Document renamed from "${document.fileName}" to "${file.name}"`,
+                  reason: JSON.stringify(reason),
+                  severity: 'low',
+                };
+                await store.createChangeRecord(renameRecord);
+                explanations.push([renameRecord, file.name]);
+                await store.updateDocument(document.id, { fileName: file.name, lastModified: file.modifiedTime });
+                changesDetected++;
+              }
+
+              if (contentChanged) {
+                console.log(`  ✏️  Content change detected: ${file.name}`);
+                note('modified', 'Content changed');
+                const versionId = uuidv4();
+
+                const version: DocumentVersion = {
+                  id: versionId,
+                  documentId: document.id,
+                  hash,
+                  content,
+                  createdAt: versionTime(file, revision, historical),
+                  historical,
+                  modifiedBy: modifiedBy?.name,
+                  modifiedByEmail: modifiedBy?.email,
+                  normalizations: JSON.stringify(normalization),
+                };
+
+                await store.createDocumentVersion(version);
+
+                // For modified, fetch previous content for diff
+                const prevVersion = document.currentVersionId ? await store.getDocumentVersion(document.currentVersionId) : null;
+                // Moving paragraphs around without rewording them is a low-severity change
+                const reordered = !!prevVersion?.content && isReorderOnly(prevVersion.content, content);
+
+                const reason: ChangeReason = {
+                  contentChanged: true,
+                  reordered: reordered || undefined,
+                  historical,
+                  ...revisionReason(revision),
+                  modifiedBy,
+                };
+                const changeRecord: ChangeRecord = {
+                  id: uuidv4(),
+                  documentId: document.id,
+                  previousVersionId: document.currentVersionId,
+                  newVersionId: versionId,
+                  changeType: 'modified',
+                  detectedAt: new Date().toISOString(),
+                  summary: modifiedSummary(file.name, revision, historical) + (reordered ? ' (paragraphs reordered)' : ''),
+                  reason: JSON.stringify(reason),
+                  severity: reordered ? 'low' : 'high',
+                };
+
+                await store.createChangeRecord(changeRecord);
+                explanations.push([changeRecord, file.name, prevVersion?.content, content]);
+
+                await store.updateDocument(document.id, {
+                  currentVersionId: versionId,
+                  currentHash: hash,
+                  lastModified: file.modifiedTime,
+                });
+
+                changesDetected++;
+              }
+
+              if (file.revision && file.revision !== document.sourceRevision) {
+                await store.updateDocument(document.id, { sourceRevision: file.revision });
+              }
+
+              if (owners && owners !== document.owners) {
+                await store.updateDocument(document.id, { owners });
+              }
+
+              // Recorded after every fetch so the next run can skip the file if nothing changes
+              if (file.version && (file.version !== document.sourceVersion || file.modifiedTime !== document.lastModified)) {
+                await store.updateDocument(document.id, { sourceVersion: file.version, lastModified: file.modifiedTime });
+              }
+            }
+
+            await logItem(file, outcome, notes.length > 0 ? notes.join('; ') : 'Content unchanged', document.id);
+          });
+          for (const args of explanations) explain(...args);
+        }
+      }
+    };
+
+    for (const [folderPath, reason] of ignoredFolders) {
+      await logItem({ id: folderPath, name: `${folderPath}/` }, 'ignored', reason);
+    }
+
+    // Files the rules leave out are not deletions either, so excluding a file keeps its history
+    const ignoredIds = new Set<string>();
+    const isIgnoredDocument = (document: Document) =>
+      ignoredIds.has(document.sourceId)
+      || rules.ignoresFolder(document.folderPath ?? '') !== null
+      || rules.ignoresFile({
+        id: document.sourceId,
+        name: document.fileName,
+        mimeType: document.mimeType,
+        modifiedTime: document.lastModified,
+        path: document.folderPath,
+      }) !== null;
+
+    for (const listedFile of files) {
+      const ignoredReason = rules.ignoresFile(listedFile);
+      if (ignoredReason) {
+        ignoredIds.add(listedFile.id);
+        await logItem(listedFile, 'ignored', ignoredReason);
+        continue;
+      }
+
+      // Filter for supported document types
+      if (!isSupportedMimeType(listedFile.mimeType)) {
+        await logItem(listedFile, 'skipped-unsupported', `Unsupported file type ${listedFile.mimeType}`);
+        continue;
+      }
+
+      currentSourceIds.add(listedFile.id);
+      docsProcessed++;
+
+      const known = await store.getDocumentBySourceId(source.type, listedFile.id);
+      const metadataNote = known ? await checkMetadata(known, listedFile) : null;
+      if (known && isUnchangedSinceLastFetch(known, listedFile, folder)) {
+        filesSkipped++;
+        await logItem(
+          listedFile,
+          metadataNote ? 'metadata' : 'unchanged',
+          metadataNote ? `${metadataNote}; content not fetched` : 'Version and modified time unchanged; content not fetched',
+          known.id
+        );
+        continue;
+      }
+
+      // Sources with history replay every revision since the last one ingested, so each
+      // commit gets its own version. The baseline only records the latest revision.
+      let snapshots: Snapshot[] = [{ file: listedFile }];
+      if (source.listRevisions && !isBaselineRun && listedFile.revision) {
+        if (!known || (known.sourceRevision && known.sourceRevision !== listedFile.revision)) {
+          try {
+            const revisions = await source.listRevisions(listedFile, known?.sourceRevision ?? null);
+            if (revisions.length > 0) {
+              snapshots = revisions.map(revision => ({
+                file: { ...listedFile, revision: revision.id, modifiedTime: revision.committedAt },
+                revision,
+              }));
+            }
+          } catch (error) {
+            console.warn(`  ⚠️  Could not list revisions of ${listedFile.name}; ingesting its current state only:`, error);
+          }
+        }
+      } else if (source.listRevisions && isBaselineRun && options.backfill) {
+        // A backfilled baseline starts from the oldest selected revision, so each later one is
+        // recorded as a historical change; the current state is ingested last as usual and is
+        // not historical
+        try {
+          const history = selectBackfillRevisions(await source.listRevisions(listedFile, null), options.backfill);
+          snapshots = [
+            ...history.map(revision => ({
+              file: { ...listedFile, revision: revision.id, modifiedTime: revision.committedAt },
+              revision,
+              historical: true,
+            })),
+            { file: listedFile },
+          ];
+          if (history.length > 0) console.log(`  🕰️  Backfilling ${history.length} revisions of ${listedFile.name}`);
+        } catch (error) {
+          console.warn(`  ⚠️  Could not list revisions of ${listedFile.name}; ingesting its current state only:`, error);
+        }
+      }
+
+      batch.push({ known, metadataNote, snapshots });
+      if (batch.length >= FETCH_BATCH_SIZE) await flushBatch();
+    }
+    await flushBatch();
+
+    // DELETION DETECTION: Find documents that are in DB but not in current folder listing.
+    // Incremental runs only see part of the folder, so they rely on the reported removals instead.
+    const activeDocuments = await store.getActiveDocumentsForFolder(folder.id);
+    const isGone = (sourceId: string) => removedIds ? removedIds.has(sourceId) : !currentSourceIds.has(sourceId);
+    let deletedCount = 0;
+    let movedOutCount = 0;
+    for (const doc of activeDocuments) {
+      if (isGone(doc.sourceId) && !isIgnoredDocument(doc)) {
+        const now = new Date().toISOString();
+
+        // A file that still exists elsewhere was moved out of the root, not deleted
+        const location = source.locateFile ? await source.locateFile(doc.sourceId) : null;
+        if (location) {
+          console.log(`  📂 Moved out of scope: ${doc.fileName} (now in ${location.path || 'the top of the drive'})`);
+          const reason: ChangeReason = {
+            movedOutOfScope: true,
+            oldPath: doc.folderPath,
+            newPath: location.path,
+            lastKnownName: doc.fileName,
+          };
+          const moveRecord: ChangeRecord = {
+            id: uuidv4(),
+            documentId: doc.id,
+            previousVersionId: doc.currentVersionId,
+            changeType: 'moved',
+            detectedAt: now,
+            summary: `Document "${doc.fileName}" moved out of scope (to ${location.path || 'the top of the drive'})`,
+            reason: JSON.stringify(reason),
+            severity: 'medium',
+          };
+          await store.transaction(async () => {
+            await store.createChangeRecord(moveRecord);
+            await store.updateDocument(doc.id, { isDeleted: true, deletedAt: now, movedOutOfScope: true });
+            await logItem({ id: doc.sourceId, name: doc.fileName }, 'moved', `Moved out of the folder (to ${location.path || 'the top of the drive'})`, doc.id);
+          });
+          explain(moveRecord, doc.fileName);
+
+          changesDetected++;
+          movedOutCount++;
+          continue;
+        }
+
+        console.log(`  🗑️  Deletion detected: ${doc.fileName} (no longer in folder)`);
+        
+        const reason: ChangeReason = {
+          lastSeenAt: doc.lastModified,
+          lastKnownName: doc.fileName,
+        };
+        const deleteRecord: ChangeRecord = {
+          id: uuidv4(),
+          documentId: doc.id,
+          previousVersionId: doc.currentVersionId,
+          changeType: 'deleted',
+          detectedAt: now,
+          summary: `Document "${doc.fileName}" removed from folder or deleted`,
+          reason: JSON.stringify(reason),
+          severity: 'medium',
+        };
+        await store.transaction(async () => {
+          await store.createChangeRecord(deleteRecord);
+          await store.updateDocument(doc.id, { isDeleted: true, deletedAt: now });
+          await logItem({ id: doc.sourceId, name: doc.fileName }, 'deleted', 'No longer in the folder', doc.id);
+        });
+        explain(deleteRecord, doc.fileName);
+        
+        changesDetected++;
+        deletedCount++;
+      }
+    }
+    if (deletedCount > 0) {
+      console.log(`📊 Deletion detection: ${deletedCount} documents marked as deleted`);
+    }
+    if (movedOutCount > 0) {
+      console.log(`📊 Deletion detection: ${movedOutCount} documents moved out of scope`);
+    }
+
+    // Create baseline summary record if this was a baseline run
+    if (isBaselineRun && docsProcessed > 0) {
+      const reason: ChangeReason = {
+        baselineDocCount: docsProcessed,
+      };
+      const baselineRecord: ChangeRecord = {
+        id: uuidv4(),
+        // documentId is undefined/null for system-level baseline records
+        changeType: 'baseline',
+        detectedAt: new Date().toISOString(),
+        summary: `Baseline established: ${docsProcessed} documents indexed`,
+        reason: JSON.stringify(reason),
+        severity: 'low',
+      };
+      await store.createChangeRecord(baselineRecord);
+      explain(baselineRecord);
+      changesDetected++;
+      console.log(`📋 Baseline record created: ${docsProcessed} documents indexed`);
+    }
+
+    // Only a completed run moves the cursor, so a failed run's changes are fetched again.
+    // So do files the source failed to deliver; files fetched this time are skipped as unchanged.
+    if (nextCursor && fetchErrors === 0) {
+      await store.saveSyncCursor(source.type, rootId, nextCursor, syncMode === 'full' ? syncStartedAt : undefined);
+    }
+
+    console.log(`📊 Content fetched for ${filesFetched} files, skipped ${filesSkipped} unchanged files`);
+    await store.updateIngestionRun(runId, {
+      status: fileFailures.length > 0 ? 'completed_with_errors' : 'completed',
+      documentsProcessed: docsProcessed,
+      changesDetected,
+      filesFetched,
+      filesSkipped,
+      error: fileFailures.length > 0
+        ? `Could not ingest ${fileFailures.length} file(s): ${fileFailures.join('; ')}`
+        : undefined,
+    });
+  } catch (error) {
+    console.error('Ingestion error:', error);
+    await store.updateIngestionRun(runId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { localDirectorySource, resolveAllowedRoot } from './localDirectory';
+
+describe('resolveAllowedRoot', () => {
+  let base: string;
+  let allowed: string;
+
+  before(() => {
+    base = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'local-source-')));
+    allowed = path.join(base, 'allowed');
+    fs.mkdirSync(path.join(allowed, 'handbook'), { recursive: true });
+    fs.mkdirSync(path.join(base, 'private'));
+    fs.symlinkSync(path.join(base, 'private'), path.join(allowed, 'escape'));
+  });
+
+  after(() => fs.rmSync(base, { recursive: true, force: true }));
+
+  // [case, requested root, resolved path (relative to the allowed directory) or null when refused]
+  const cases: Array<[string, string, string | null]> = [
+    ['an absolute path inside', 'ALLOWED/handbook', 'handbook'],
+    ['a relative path', 'handbook', 'handbook'],
+    ['the allowed directory itself', '.', ''],
+    ['a parent directory', '..', null],
+    ['a path climbing out', 'handbook/../../private', null],
+    ['a system directory', '/etc', null],
+    ['a symlink leading out', 'escape', null],
+  ];
+  for (const [name, requested, expected] of cases) {
+    it(`${expected === null ? 'refuses' : 'accepts'} ${name}`, () => {
+      const result = resolveAllowedRoot(requested.replace('ALLOWED', allowed), [allowed]);
+      if (expected === null) {
+        assert.ok('error' in result);
+      } else {
+        assert.deepEqual(result, { path: path.join(allowed, expected) });
+      }
+    });
+  }
+
+  it('refuses every root when no directory is allowed', () => {
+    assert.ok('error' in resolveAllowedRoot(allowed, []));
+  });
+});
+
+describe('LocalDirectorySource', () => {
+  let root: string;
+
+  before(() => {
+    // Listing logs each folder it enters
+    mock.method(console, 'log', () => {});
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'local-source-'));
+    fs.mkdirSync(path.join(root, 'HR', 'archive'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'policy.md'), '# Policy');
+    fs.writeFileSync(path.join(root, 'HR', 'leave.txt'), 'Leave');
+    fs.writeFileSync(path.join(root, 'HR', 'archive', 'old.txt'), 'Old');
+    fs.writeFileSync(path.join(root, '.hidden.txt'), 'Hidden');
+  });
+
+  after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  it('lists files recursively with their folder paths, skipping hidden ones', async () => {
+    const files = await localDirectorySource.listFiles(root);
+    assert.deepEqual(files.map(file => [file.name, file.path, file.mimeType]), [
+      ['old.txt', 'HR/archive', 'text/plain'],
+      ['leave.txt', 'HR', 'text/plain'],
+      ['policy.md', '', 'text/markdown'],
+    ]);
+  });
+
+  it('skips ignored folders', async () => {
+    const files = await localDirectorySource.listFiles(root, folderPath => folderPath === 'HR/archive');
+    assert.deepEqual(files.map(file => file.name), ['leave.txt', 'policy.md']);
+  });
+});
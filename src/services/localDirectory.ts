@@ -0,0 +1,116 @@
+import fs from 'fs';
+import path from 'path';
+import { DocumentSource, SourceFile } from './documentSource';
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+};
+
+export function mimeTypeForPath(filePath: string): string {
+  return MIME_TYPES_BY_EXTENSION[path.extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+// Directories that local and git roots named over the API must lie in (LOCAL_SOURCE_ROOTS,
+// comma-separated). The roots are paths on this server, so without it none are accepted.
+const LOCAL_SOURCE_ROOTS = (process.env.LOCAL_SOURCE_ROOTS || '')
+  .split(',')
+  .map(dir => dir.trim())
+  .filter(dir => dir.length > 0);
+
+// Follows symlinks in the part of the path that exists, so a link cannot lead out of a root
+function realPath(target: string): string {
+  try {
+    return fs.realpathSync.native(target);
+  } catch {
+    const parent = path.dirname(target);
+    return parent === target ? target : path.join(realPath(parent), path.basename(target));
+  }
+}
+
+// Resolves a requested root path and checks it lies within an allowed directory; relative paths
+// are taken from the first one
+export function resolveAllowedRoot(
+  rootPath: string,
+  allowedRoots: string[] = LOCAL_SOURCE_ROOTS
+): { path: string } | { error: string } {
+  if (allowedRoots.length === 0) {
+    return { error: 'Local and git roots are disabled; set LOCAL_SOURCE_ROOTS to the directories they may be read from' };
+  }
+  const bases = allowedRoots.map(dir => realPath(path.resolve(dir)));
+  const resolved = realPath(path.resolve(bases[0], rootPath));
+  const isWithin = (base: string) => {
+    const relative = path.relative(base, resolved);
+    return !path.isAbsolute(relative) && relative.split(path.sep)[0] !== '..';
+  };
+  return bases.some(isWithin) ? { path: resolved } : { error: `rootId must be inside one of: ${bases.join(', ')}` };
+}
+
+// Reads documents from a directory on disk (a network share, a checkout, or test fixtures).
+// File IDs are absolute paths, so a renamed file is seen as deleted + created.
+export class LocalDirectorySource implements DocumentSource {
+  readonly type = 'local' as const;
+
+  async checkAvailability(rootPath: string): Promise<string | null> {
+    try {
+      const stats = await fs.promises.stat(rootPath);
+      return stats.isDirectory() ? null : `Not a directory: ${rootPath}`;
+    } catch {
+      return `Local directory not found: ${rootPath}`;
+    }
+  }
+
+  async listFiles(rootPath: string, ignoresFolder?: (folderPath: string) => boolean): Promise<SourceFile[]> {
+    const allFiles: SourceFile[] = [];
+    const root = path.resolve(rootPath);
+    await this.recursiveListFiles(root, root, allFiles, ignoresFolder);
+    return allFiles;
+  }
+
+  private async recursiveListFiles(
+    root: string,
+    directory: string,
+    accumulator: SourceFile[],
+    ignoresFolder?: (folderPath: string) => boolean
+  ): Promise<void> {
+    const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      // Skip hidden files and folders (.git, .DS_Store, editor swap files)
+      if (entry.name.startsWith('.')) continue;
+
+      const fullPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (ignoresFolder?.(path.relative(root, fullPath).split(path.sep).join('/'))) continue;
+        console.log(`📁 Recursing into folder: ${entry.name}`);
+        await this.recursiveListFiles(root, fullPath, accumulator, ignoresFolder);
+      } else if (entry.isFile()) {
+        const stats = await fs.promises.stat(fullPath);
+        accumulator.push({
+          id: fullPath,
+          name: entry.name,
+          mimeType: mimeTypeForPath(entry.name),
+          modifiedTime: stats.mtime.toISOString(),
+          size: stats.size,
+          path: path.relative(root, directory).split(path.sep).join('/'),
+        });
+        console.log(`  📄 Found: ${entry.name}`);
+      }
+    }
+  }
+
+  async fetchContent(file: SourceFile): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(file.id);
+    } catch (error) {
+      console.error(`Error reading local file ${file.id}:`, error);
+      return null;
+    }
+  }
+}
+
+export const localDirectorySource = new LocalDirectorySource();
@@ -0,0 +1,44 @@
+// Extractors embed location markers in the extracted text so a diff can say
+// where a change happened (e.g. "page 4") without the marker itself being
+// diffed. A marker is a line of its own: a form feed, a kind and a label.
+export type LocationMarkerKind = 'page' | 'slide' | 'sheet';
+
+export interface LocationMarker {
+  kind: LocationMarkerKind;
+  label: string;
+}
+
+const MARKER_PATTERN = /^\f(page|slide|sheet):(.*)$/;
+
+export function formatLocationMarker(kind: LocationMarkerKind, label: string | number): string {
+  return `\f${kind}:${label}`;
+}
+
+export function parseLocationMarker(line: string): LocationMarker | null {
+  const match = line.replace(/\r$/, '').match(MARKER_PATTERN);
+  if (!match) return null;
+  return { kind: match[1] as LocationMarkerKind, label: match[2] };
+}
+
+export function isLocationMarker(line: string): boolean {
+  return parseLocationMarker(line) !== null;
+}
+
+export function stripLocationMarkers(text: string): string {
+  return text
+    .split('\n')
+    .filter(line => !isLocationMarker(line))
+    .join('\n');
+}
+
+// Sheet tabs hold one row per paragraph, so their location includes the row number
+export function describeLocationMarker(marker: LocationMarker, paragraphNumber: number): string {
+  switch (marker.kind) {
+    case 'page':
+      return `page ${marker.label}`;
+    case 'slide':
+      return `Slide ${marker.label}`;
+    case 'sheet':
+      return `Sheet '${marker.label}' row ${paragraphNumber}`;
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyModality, compareModality } from './modality';
+
+describe('classifyModality', () => {
+  // [sentence, modality, cue]
+  const cases: Array<[string, string | null, string | null]> = [
+    ['Employees must encrypt laptops.', 'obligation', 'must'],
+    ['Employees must not share passwords.', 'prohibition', 'must not'],
+    ['Employees may not share passwords.', 'prohibition', 'may not'],
+    ['Employees shall not share passwords.', 'prohibition', 'shall not'],
+    ['Employees cannot share passwords.', 'prohibition', 'cannot'],
+    ['Do not share passwords.', 'prohibition', 'do not'],
+    ['Employees should not share passwords.', 'recommendation', 'should not'],
+    ['Employees should lock their screens.', 'recommendation', 'should'],
+    ['Employees may work remotely.', 'permission', 'may'],
+    ['Employees are not required to attend.', 'permission', 'not required to'],
+    ['Staff may request leave and must notify their manager.', 'obligation', 'must'],
+    ['Submit the form by May 1.', null, null],
+    // Negations in subordinate clauses do not govern the sentence
+    ['Staff must review requests that cannot be automated.', 'obligation', 'must'],
+    ['Requests that cannot be automated must be reviewed by staff.', 'obligation', 'must'],
+    ['Staff must escalate tickets which users will not close.', 'obligation', 'must'],
+    ['If a request cannot be met, staff must notify the owner.', 'obligation', 'must'],
+    ['Users who can access the vault must not copy it.', 'prohibition', 'must not'],
+    ['Staff who handle data must encrypt it.', 'obligation', 'must'],
+    ['Requests that cannot be automated are escalated.', null, null],
+  ];
+  for (const [sentence, modality, cue] of cases) {
+    it(`classifies "${sentence}"`, () => {
+      const result = classifyModality(sentence);
+      assert.equal(result?.modality ?? null, modality);
+      assert.equal(result?.cue ?? null, cue);
+    });
+  }
+});
+
+describe('compareModality', () => {
+  it('reports a strengthened modality', () => {
+    const [change] = compareModality('Managers should review access.', 'Managers must review access.', 'Access');
+    assert.equal(change.from, 'recommendation');
+    assert.equal(change.to, 'obligation');
+    assert.equal(change.strengthened, true);
+    assert.equal(change.description, '"should" became "must": a recommendation is now an obligation');
+  });
+
+  it('ignores a negation added to a subordinate clause', () => {
+    const changes = compareModality(
+      'Staff must review requests that are flagged.',
+      'Staff must review requests that cannot be automated.',
+      null
+    );
+    assert.deepEqual(changes, []);
+  });
+
+  it('ignores sentences found in both versions', () => {
+    assert.deepEqual(compareModality('Staff must sign in. Visitors may wait.', 'Visitors may wait. Staff must sign in.', null), []);
+  });
+});
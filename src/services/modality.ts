@@ -0,0 +1,168 @@
+import { Modality } from '../types';
+import { similarity, wordCounts } from './textSimilarity';
+
+// What a requirement sentence asks of its reader: something they must do, must not do, may do or
+// should do. Cues match whole words, and negated forms are checked before the plain ones because
+// "must not" contains "must" and "not required to" contains "required to". Only the main clause
+// counts: in "Staff must review requests that cannot be automated" the "cannot" belongs to the
+// requests, so the sentence is an obligation.
+
+export interface ModalityChange {
+  from: Modality | null;
+  to: Modality | null;
+  // The words that set each modality ("should", "must not")
+  fromCue: string | null;
+  toCue: string | null;
+  before: string;
+  after: string;
+  location: string | null;
+  // The new wording is an obligation or prohibition where it was not before
+  strengthened: boolean;
+  description: string;
+}
+
+// Reworded sentences share at least this many words with the sentence they replace
+const SENTENCE_SIMILARITY = 0.5;
+const MAX_SENTENCE_COMPARISONS = 2000;
+
+// In order of precedence: a sentence with "may" and "must" is an obligation
+const MODALITY_CUES: Array<[Modality, RegExp]> = [
+  ['prohibition', new RegExp([
+    "\\b(?:must|shall|may|can|will)\\s+(?:not|never)\\b",
+    "\\b(?:mustn't|shan't|cannot|can't|won't)\\b",
+    '\\b(?:is|are|be)\\s+(?:not\\s+(?:permitted|allowed|authori[sz]ed)|prohibited|forbidden|banned)\\b',
+    '\\bnot\\s+(?:permitted|allowed)\\s+to\\b',
+    '\\bprohibited\\s+from\\b',
+    // Imperatives: "Do not share passwords", "Never leave laptops unattended"
+    "^\\s*(?:do\\s+not|don't|never)\\b",
+  ].join('|'), 'gi')],
+  // A negated obligation leaves the choice to the reader
+  ['permission', new RegExp([
+    '\\bnot\\s+(?:required|obligated|obliged)\\s+to\\b',
+    "\\b(?:need\\s+not|needn't)\\b",
+    "\\b(?:does|do|did)(?:\\s+not|n't)\\s+(?:need|have)\\s+to\\b",
+    '\\b(?:is|are)\\s+(?:not\\s+mandatory|optional)\\b',
+  ].join('|'), 'gi')],
+  ['obligation', new RegExp([
+    '\\b(?:must|shall)\\b',
+    '\\b(?:is|are|be|been|was|were)\\s+required\\b',
+    '\\brequired\\s+to\\b',
+    '\\b(?:needs?|ha(?:ve|s))\\s+to\\b',
+    '\\b(?:mandatory|obligated|obliged)\\b',
+    '\\bresponsible\\s+for\\b',
+    '\\bexpected\\s+to\\b',
+    '\\bensure\\b',
+  ].join('|'), 'gi')],
+  // "Should not" advises against something; it is not a prohibition
+  ['recommendation', new RegExp([
+    "\\b(?:should(?:\\s+not|n't)?|ought(?:\\s+not)?\\s+to)\\b",
+    '\\b(?:is|are)\\s+(?:recommended|encouraged|advised)\\b',
+    '\\b(?:recommend|recommends|encourage|encourages)\\b',
+  ].join('|'), 'gi')],
+  ['permission', new RegExp([
+    // "by May 1" is a date
+    '\\bmay\\b(?!\\s+\\d)',
+    '\\bcan\\b',
+    '\\b(?:is|are)\\s+(?:permitted|allowed|entitled|authori[sz]ed)\\b',
+    '\\bat\\s+(?:their|his|her|your)\\s+(?:own\\s+)?discretion\\b',
+  ].join('|'), 'gi')],
+];
+
+// A cue right after a relative or subordinating word ("requests that cannot", "if staff may") is
+// part of a subordinate clause
+const SUBORDINATE_CLAUSE = /\b(?:that|which|who|whom|whose|where|when|whenever|if|unless|because|since|although|though|while|whether)(?:\s+[\w'-]+)?\s+$/i;
+// So is one in an opening clause up to its comma ("If a request cannot be met, staff must...")
+const OPENING_CLAUSE = /^\s*(?:if|when|whenever|where|unless|because|since|although|though|while|once|after|before|until)\b[^,;]*[,;]/i;
+
+function isSubordinate(sentence: string, index: number): boolean {
+  const opening = sentence.match(OPENING_CLAUSE);
+  return (opening !== null && index < opening[0].length) || SUBORDINATE_CLAUSE.test(sentence.substring(0, index));
+}
+
+export function classifyModality(sentence: string): { modality: Modality; cue: string } | null {
+  for (const [modality, pattern] of MODALITY_CUES) {
+    for (const match of sentence.matchAll(pattern)) {
+      if (isSubordinate(sentence, match.index!)) continue;
+      return { modality, cue: match[0].trim().toLowerCase().replace(/\s+/g, ' ') };
+    }
+  }
+  return null;
+}
+
+const MODALITY_LABELS: Record<Modality, string> = {
+  obligation: 'an obligation',
+  prohibition: 'a prohibition',
+  permission: 'a permission',
+  recommendation: 'a recommendation',
+};
+
+function label(modality: Modality | null): string {
+  return modality ? MODALITY_LABELS[modality] : 'a plain statement';
+}
+
+// '"should" became "must": a recommendation is now an obligation'
+export function describeModalityChange(from: Modality | null, to: Modality | null, fromCue: string | null, toCue: string | null): string {
+  const words = fromCue && toCue
+    ? `"${fromCue}" became "${toCue}"`
+    : toCue ? `"${toCue}" added` : `"${fromCue}" removed`;
+  return `${words}: ${label(from)} is now ${label(to)}`;
+}
+
+// Obligations and prohibitions bind the reader; recommendations and permissions leave a choice
+export function isBinding(modality: Modality | null): boolean {
+  return modality === 'obligation' || modality === 'prohibition';
+}
+
+export function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(s => s.length > 0);
+}
+
+// Compares the modality of two versions of a paragraph. Sentences found in both are unchanged;
+// each reworded sentence is paired with the most similar sentence it replaced.
+export function compareModality(before: string, after: string, location: string | null): ModalityChange[] {
+  const previousSentences = splitSentences(before);
+  const currentSentences = splitSentences(after);
+  const unchanged = new Set(previousSentences.filter(sentence => currentSentences.includes(sentence)));
+  const previous = previousSentences.filter(sentence => !unchanged.has(sentence));
+  const current = currentSentences.filter(sentence => !unchanged.has(sentence));
+  if (previous.length * current.length > MAX_SENTENCE_COMPARISONS) return [];
+
+  const previousCounts = previous.map(wordCounts);
+  const paired = new Set<number>();
+  const changes: ModalityChange[] = [];
+  for (const sentence of current) {
+    const counts = wordCounts(sentence);
+    let best = -1;
+    let bestScore = SENTENCE_SIMILARITY;
+    previousCounts.forEach((candidate, index) => {
+      if (paired.has(index)) return;
+      const score = similarity(candidate, counts);
+      if (score >= bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    });
+    if (best === -1) continue;
+    paired.add(best);
+
+    const from = classifyModality(previous[best]);
+    const to = classifyModality(sentence);
+    const fromModality = from?.modality ?? null;
+    const toModality = to?.modality ?? null;
+    if (fromModality === toModality) continue;
+    const fromCue = from?.cue ?? null;
+    const toCue = to?.cue ?? null;
+    changes.push({
+      from: fromModality,
+      to: toModality,
+      fromCue,
+      toCue,
+      before: previous[best],
+      after: sentence,
+      location,
+      strengthened: isBinding(toModality) && !isBinding(fromModality),
+      description: describeModalityChange(fromModality, toModality, fromCue, toCue),
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_INTERVAL_MINUTES, newMonitoredFolder, parseFolderSettings } from './monitoredFolders';
+
+describe('parseFolderSettings', () => {
+  const existing = newMonitoredFolder({ name: 'Policies', sourceType: 'google_drive', rootId: 'root' });
+
+  // [case, intervalMinutes, accepted]
+  const intervalCases: Array<[string, unknown, boolean]> = [
+    ['one minute', 1, true],
+    ['a day', 1440, true],
+    ['the longest timer delay', MAX_INTERVAL_MINUTES, true],
+    ['zero', 0, false],
+    ['more than a timer can wait', MAX_INTERVAL_MINUTES + 1, false],
+    ['a string', '60', false],
+  ];
+  for (const [name, intervalMinutes, accepted] of intervalCases) {
+    it(`${accepted ? 'accepts' : 'rejects'} an interval of ${name}`, () => {
+      const parsed = parseFolderSettings({ intervalMinutes }, existing);
+      assert.deepEqual(parsed, accepted
+        ? { settings: { intervalMinutes } }
+        : { error: `intervalMinutes must be a number from 1 to ${MAX_INTERVAL_MINUTES}` });
+    });
+  }
+});
@@ -0,0 +1,123 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../db';
+import { isSourceType, SOURCE_TYPES } from './documentSource';
+import { isNormalizationStep, NORMALIZATION_STEPS } from './contentNormalizer';
+import { parseFileRules } from './fileRules';
+import { resolveAllowedRoot } from './localDirectory';
+import { ChangeSeverity, MonitoredFolder, SourceType } from '../types';
+
+const SEVERITIES: ChangeSeverity[] = ['low', 'medium', 'high'];
+// setInterval takes a signed 32-bit millisecond delay; anything longer fires immediately
+export const MAX_INTERVAL_MINUTES = Math.floor((2 ** 31 - 1) / 60_000);
+
+type FolderSettings = Pick<
+  MonitoredFolder,
+  'name' | 'sourceType' | 'rootId' | 'owner' | 'notificationEmails' | 'notifyMinSeverity' | 'scheduleEnabled' | 'intervalMinutes' | 'fileRules' | 'normalization'
+>;
+
+// Validates a create (no existing folder) or update request body. Only fields present in the body
+// are returned; on create the required fields are checked and defaults are filled in.
+export function parseFolderSettings(
+  body: any,
+  existing?: MonitoredFolder
+): { settings: Partial<FolderSettings> } | { error: string } {
+  const settings: Partial<FolderSettings> = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'name must be a non-empty string' };
+    settings.name = body.name.trim();
+  }
+  if (body.sourceType !== undefined || body.rootId !== undefined) {
+    if (existing) return { error: 'sourceType and rootId cannot be changed; create a new folder instead' };
+    if (body.sourceType !== undefined && !isSourceType(body.sourceType)) {
+      return { error: `sourceType must be one of: ${SOURCE_TYPES.join(', ')}` };
+    }
+    if (typeof body.rootId !== 'string' || !body.rootId.trim()) return { error: 'rootId must be a non-empty string' };
+    settings.sourceType = body.sourceType ?? 'google_drive';
+    const root = resolveRootId(settings.sourceType!, body.rootId.trim());
+    if ('error' in root) return root;
+    settings.rootId = root.rootId;
+  }
+  if (body.owner !== undefined) {
+    if (body.owner !== null && typeof body.owner !== 'string') return { error: 'owner must be a string or null' };
+    settings.owner = body.owner || null;
+  }
+  if (body.notificationEmails !== undefined) {
+    if (!Array.isArray(body.notificationEmails) || !body.notificationEmails.every((e: unknown) => typeof e === 'string' && e.includes('@'))) {
+      return { error: 'notificationEmails must be an array of email addresses' };
+    }
+    settings.notificationEmails = body.notificationEmails;
+  }
+  if (body.notifyMinSeverity !== undefined) {
+    if (!SEVERITIES.includes(body.notifyMinSeverity)) return { error: `notifyMinSeverity must be one of: ${SEVERITIES.join(', ')}` };
+    settings.notifyMinSeverity = body.notifyMinSeverity;
+  }
+  if (body.scheduleEnabled !== undefined) {
+    if (typeof body.scheduleEnabled !== 'boolean') return { error: 'scheduleEnabled must be a boolean' };
+    settings.scheduleEnabled = body.scheduleEnabled;
+  }
+  if (body.intervalMinutes !== undefined) {
+    if (typeof body.intervalMinutes !== 'number' || body.intervalMinutes < 1 || body.intervalMinutes > MAX_INTERVAL_MINUTES) {
+      return { error: `intervalMinutes must be a number from 1 to ${MAX_INTERVAL_MINUTES}` };
+    }
+    settings.intervalMinutes = body.intervalMinutes;
+  }
+  if (body.fileRules !== undefined) {
+    const parsed = parseFileRules(body.fileRules);
+    if ('error' in parsed) return parsed;
+    settings.fileRules = parsed.rules;
+  }
+  // null goes back to the CONTENT_NORMALIZATION default; an empty list turns normalization off
+  if (body.normalization !== undefined) {
+    if (body.normalization !== null && (!Array.isArray(body.normalization)
+      || !body.normalization.every((step: unknown) => typeof step === 'string' && isNormalizationStep(step)))) {
+      return { error: `normalization must be null or an array of: ${NORMALIZATION_STEPS.join(', ')}` };
+    }
+    settings.normalization = body.normalization && NORMALIZATION_STEPS.filter(step => body.normalization.includes(step));
+  }
+
+  if (!existing) {
+    if (!settings.rootId) return { error: 'rootId is required' };
+    if (!settings.name) return { error: 'name is required' };
+  }
+  return { settings };
+}
+
+// Roots named by API clients: Drive folder IDs as given, and local and git paths resolved and
+// confined to LOCAL_SOURCE_ROOTS, since they are read from this server's disk
+export function resolveRootId(sourceType: SourceType, rootId: string): { rootId: string } | { error: string } {
+  if (sourceType === 'google_drive') return { rootId };
+  const resolved = resolveAllowedRoot(rootId);
+  return 'error' in resolved ? resolved : { rootId: resolved.path };
+}
+
+export function newMonitoredFolder(settings: Partial<FolderSettings> & { sourceType: SourceType; rootId: string; name: string }): MonitoredFolder {
+  const now = new Date().toISOString();
+  return {
+    id: uuidv4(),
+    owner: null,
+    notificationEmails: [],
+    notifyMinSeverity: 'medium',
+    scheduleEnabled: false,
+    intervalMinutes: 60,
+    fileRules: {},
+    normalization: null,
+    ...settings,
+    lastRun: null,
+    nextRun: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// Ad-hoc runs and the legacy single-folder scheduler name a root rather than a folder;
+// the root gets an unscheduled folder the first time it is ingested
+export async function ensureFolderForRoot(sourceType: SourceType, rootId: string): Promise<MonitoredFolder> {
+  const existing = await db.getMonitoredFolderByRoot(sourceType, rootId);
+  if (existing) return existing;
+
+  const folder = newMonitoredFolder({ sourceType, rootId, name: rootId });
+  await db.createMonitoredFolder(folder);
+  console.log(`📁 Created monitored folder for ${sourceType} root ${rootId}`);
+  return folder;
+}
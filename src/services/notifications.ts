@@ -0,0 +1,70 @@
+import { ChangeRecord, ChangeSeverity, MonitoredFolder } from '../types';
+
+// Change records are sent to each folder's notificationEmails through a mail relay: a JSON POST
+// of the recipients, subject and text to NOTIFICATION_WEBHOOK_URL, which does the delivery.
+const NOTIFICATION_WEBHOOK_URL = process.env.NOTIFICATION_WEBHOOK_URL || '';
+
+const SEVERITY_RANK: Record<ChangeSeverity, number> = { low: 0, medium: 1, high: 2 };
+
+export interface ChangeNotification {
+  to: string[];
+  subject: string;
+  text: string;
+  folderId: string;
+  changeRecordId: string;
+  severity: ChangeSeverity;
+}
+
+// Baseline records describe the run, not a change anyone needs to hear about
+export function shouldNotify(folder: MonitoredFolder, record: ChangeRecord): boolean {
+  return folder.notificationEmails.length > 0
+    && record.changeType !== 'baseline'
+    && SEVERITY_RANK[record.severity || 'low'] >= SEVERITY_RANK[folder.notifyMinSeverity];
+}
+
+export function buildNotification(folder: MonitoredFolder, record: ChangeRecord): ChangeNotification {
+  const severity = record.severity || 'low';
+  return {
+    to: folder.notificationEmails,
+    subject: `[${folder.name}] ${severity.toUpperCase()}: ${record.summary}`,
+    text: [
+      record.summary,
+      `Folder: ${folder.name}`,
+      `Change: ${record.changeType} (${severity} severity)`,
+      `Detected: ${record.detectedAt}`,
+    ].join('\n'),
+    folderId: folder.id,
+    changeRecordId: record.id,
+    severity,
+  };
+}
+
+class NotificationService {
+  private warnedUnconfigured = false;
+
+  async notifyChange(folder: MonitoredFolder, record: ChangeRecord): Promise<void> {
+    if (!shouldNotify(folder, record)) return;
+    if (!NOTIFICATION_WEBHOOK_URL) {
+      if (!this.warnedUnconfigured) {
+        console.warn('⚠️  NOTIFICATION_WEBHOOK_URL is not set; folder notifications will not be sent');
+        this.warnedUnconfigured = true;
+      }
+      return;
+    }
+
+    const notification = buildNotification(folder, record);
+    try {
+      const response = await fetch(NOTIFICATION_WEBHOOK_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(notification),
+      });
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      console.log(`📧 Notified ${notification.to.length} recipient(s) of ${record.changeType} change ${record.id}`);
+    } catch (error) {
+      console.error(`Failed to send notification for ${record.id}:`, error);
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
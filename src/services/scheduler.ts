@@ -1,5 +1,8 @@
 import { db } from '../db';
 import { v4 as uuidv4 } from 'uuid';
+import { ensureFolderForRoot } from './monitoredFolders';
+import { IngestionOptions, isFolderIngesting } from './ingestion';
+import { MonitoredFolder } from '../types';
 
 export interface SchedulerConfig {
   enabled: boolean;
@@ -9,7 +12,7 @@ export interface SchedulerConfig {
   nextRun: string | null;
 }
 
-export type IngestionCallback = (runId: string, folderId: string) => Promise<void>;
+export type IngestionCallback = (runId: string, folder: MonitoredFolder, options?: IngestionOptions) => Promise<void>;
 
 class SchedulerService {
   private timer: NodeJS.Timeout | null = null;
@@ -22,6 +25,8 @@ class SchedulerService {
   };
   private ingestionCallback: IngestionCallback | null = null;
   private ingestionInProgress = false;
+  // Per-folder timers, keyed by monitored folder ID
+  private folderTimers = new Map<string, NodeJS.Timeout>();
 
   async initialize(): Promise<void> {
     const savedConfig = await db.getSchedulerConfig();
@@ -34,6 +39,13 @@ class SchedulerService {
     }
     
     console.log(`📅 Scheduler initialized: ${this.config.enabled ? 'ENABLED' : 'disabled'} (every ${this.config.intervalMinutes} minutes)`);
+
+    const folders = await db.getMonitoredFolders();
+    for (const folder of folders) {
+      await this.scheduleFolder(folder);
+    }
+    const scheduled = folders.filter(folder => folder.scheduleEnabled).length;
+    console.log(`📅 Monitored folders: ${folders.length} (${scheduled} scheduled)`);
   }
 
   setIngestionCallback(callback: IngestionCallback): void {
@@ -129,7 +141,8 @@ class SchedulerService {
       }
       await db.saveSchedulerConfig(this.config);
 
-      await this.ingestionCallback(runId, this.config.folderId);
+      const folder = await ensureFolderForRoot('google_drive', this.config.folderId);
+      await this.ingestionCallback(runId, folder);
       return { runId };
     } catch (error) {
       console.error('❌ Scheduled ingestion failed:', error);
@@ -142,6 +155,64 @@ class SchedulerService {
   isRunning(): boolean {
     return this.timer !== null;
   }
+
+  // (Re)starts the folder's timer from its current settings, or stops it when its schedule is disabled
+  async scheduleFolder(folder: MonitoredFolder): Promise<void> {
+    this.unscheduleFolder(folder.id);
+
+    if (!folder.scheduleEnabled) {
+      if (folder.nextRun) await db.updateMonitoredFolder(folder.id, { nextRun: null });
+      return;
+    }
+
+    const intervalMs = folder.intervalMinutes * 60 * 1000;
+    this.folderTimers.set(folder.id, setInterval(() => {
+      this.runFolder(folder.id).catch(console.error);
+    }, intervalMs));
+
+    const nextRun = new Date(Date.now() + intervalMs).toISOString();
+    await db.updateMonitoredFolder(folder.id, { nextRun });
+    console.log(`📅 Folder "${folder.name}" scheduled every ${folder.intervalMinutes} minutes (next run: ${nextRun})`);
+  }
+
+  unscheduleFolder(folderId: string): void {
+    const timer = this.folderTimers.get(folderId);
+    if (timer) {
+      clearInterval(timer);
+      this.folderTimers.delete(folderId);
+    }
+  }
+
+  async runFolder(folderId: string): Promise<{ runId: string | null; error?: string }> {
+    const folder = await db.getMonitoredFolder(folderId);
+    if (!folder || !this.ingestionCallback) {
+      return { runId: null, error: folder ? 'Not configured' : 'Folder not found' };
+    }
+
+    if (isFolderIngesting(folder.id)) {
+      console.log(`⏭️  Skipping ingestion of "${folder.name}": Previous run still in progress`);
+      return { runId: null, error: 'Ingestion already in progress' };
+    }
+
+    const runId = uuidv4();
+    console.log(`\n⏰ Ingestion of folder "${folder.name}" triggered: ${runId}`);
+
+    const now = Date.now();
+    await db.updateMonitoredFolder(folder.id, {
+      lastRun: new Date(now).toISOString(),
+      nextRun: this.folderTimers.has(folder.id)
+        ? new Date(now + folder.intervalMinutes * 60 * 1000).toISOString()
+        : null,
+    });
+
+    try {
+      await this.ingestionCallback(runId, folder);
+      return { runId };
+    } catch (error) {
+      console.error(`❌ Ingestion of folder "${folder.name}" failed:`, error);
+      return { runId: null, error: String(error) };
+    }
+  }
 }
 
 export const schedulerService = new SchedulerService();
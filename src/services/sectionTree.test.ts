@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffSectionTrees, parseHeading, parseSectionTree } from './sectionTree';
+
+describe('parseHeading', () => {
+  // [line, level, number, title]
+  const cases: Array<[string, number | null, string | null, string]> = [
+    ['# Scope', 1, null, 'Scope'],
+    ['### Backups', 3, null, 'Backups'],
+    ['4.2 Data Retention', 2, '4.2', 'Data Retention'],
+    ['DATA RETENTION', 1, null, 'DATA RETENTION'],
+  ];
+  for (const [line, level, number, title] of cases) {
+    it(`parses "${line}"`, () => {
+      assert.deepEqual(parseHeading(line), { level, number, title });
+    });
+  }
+
+  it('does not take a sentence for a heading', () => {
+    assert.equal(parseHeading('Records are kept for a while.'), null);
+  });
+});
+
+describe('diffSectionTrees', () => {
+  const diff = (before: string, after: string) =>
+    diffSectionTrees(parseSectionTree(before), parseSectionTree(after)).map(change => change.description);
+
+  it('reports added and removed sections', () => {
+    assert.deepEqual(
+      diff('# Scope\n\nAll staff.\n\n# Travel\n\nBook early.', '# Scope\n\nAll staff.\n\n# Expenses\n\nKeep receipts.'),
+      ["Section 'Expenses' added", "Section 'Travel' removed"]
+    );
+  });
+
+  it('reports a renamed section by its body', () => {
+    const body = 'Items can be returned within thirty days of purchase with a receipt.';
+    assert.deepEqual(diff(`# Returns\n\n${body}`, `# Refunds & Returns\n\n${body}`), ["Section 'Returns' renamed to 'Refunds & Returns'"]);
+  });
+
+  it('does not take a change of case or spacing for a rename', () => {
+    assert.deepEqual(diff('# Data retention\n\nKeep records.', '# Data  Retention\n\nKeep records.'), []);
+    assert.deepEqual(
+      diff('# Data retention\n\nKeep records.', '# Data Retention\n\nKeep all records.'),
+      ["Section 'Data Retention' changed (paragraphs: 1 added, 1 removed)"]
+    );
+  });
+
+  it('does not report a section that only moved', () => {
+    assert.deepEqual(
+      diff('# Scope\n\nAll staff.\n\n# Retention\n\nKeep records.\n\n# Contacts\n\nEmail us.', '# Scope\n\nAll staff.\n\n# Contacts\n\nEmail us.\n\n# Retention\n\nKeep records.'),
+      []
+    );
+  });
+
+  it('reports a section that moved and changed as modified', () => {
+    assert.deepEqual(
+      diff('# Retention\n\nKeep records for 30 days.\n\n# Contacts\n\nEmail us.', '# Contacts\n\nEmail us.\n\n# Retention\n\nKeep records for 14 days.'),
+      ["Section 'Retention' changed (paragraphs: 1 added, 1 removed)"]
+    );
+  });
+});
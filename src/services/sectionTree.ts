@@ -0,0 +1,291 @@
+import { stripLocationMarkers } from './locationMarkers';
+import { similarity, wordCounts } from './textSimilarity';
+
+// Documents are parsed into a tree of sections by their headings, so two versions can be compared
+// section by section: which sections were added, removed, renamed or changed.
+
+export interface Heading {
+  // Markdown "#" count or the number of parts in "1.2.3"; ALL CAPS headings are top level.
+  // Null for "Title:" headings, which sit one level below the heading before them.
+  level: number | null;
+  number: string | null;
+  title: string;
+}
+
+export interface SectionNode {
+  heading: Heading | null;
+  level: number;
+  // The section's own paragraphs, not those of its subsections
+  paragraphs: string[];
+  children: SectionNode[];
+}
+
+export interface SectionChange {
+  type: 'added' | 'removed' | 'renamed' | 'modified';
+  number: string | null;
+  title: string;
+  oldTitle?: string;
+  level: number;
+  paragraphsAdded: number;
+  paragraphsRemoved: number;
+  // Subsections added or removed along with this section
+  subsections?: number;
+  description: string;
+}
+
+const MAX_HEADING_LENGTH = 100;
+const MAX_HEADING_WORDS = 12;
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)(?:\s+#+)?$/;
+const NUMBERED_HEADING = /^(\d+(?:\.\d+)*)\.?\s+(\S.*)$/;
+const ALL_CAPS_HEADING = /^[A-Z][A-Z0-9 &/'()-]+$/;
+
+// Sections whose bodies share this many words are one section under a new name
+const RENAME_SIMILARITY = 0.6;
+const RENAME_MAX_COMPARISONS = 20000;
+
+// "Data Retention", "Refunds & Returns": every word of four letters or more is capitalised
+function isTitleLike(text: string): boolean {
+  return text.split(/\s+/).every(word => word.length < 4 || !/^\p{Ll}/u.test(word));
+}
+
+function splitNumber(text: string): { number: string | null; title: string } {
+  const match = text.match(NUMBERED_HEADING);
+  return match ? { number: match[1], title: match[2] } : { number: null, title: text };
+}
+
+export function parseHeading(line: string): Heading | null {
+  const text = line.trim();
+  if (!text || text.length >= MAX_HEADING_LENGTH) return null;
+
+  const markdown = text.match(MARKDOWN_HEADING);
+  if (markdown) {
+    const { number, title } = splitNumber(markdown[2]);
+    return { level: markdown[1].length, number, title: title.replace(/:$/, '') };
+  }
+
+  // Headings are short and do not end like sentences; "1. Open the portal" is a list step, so a
+  // single-part number also needs a title-like heading
+  const looksLikeHeading = (title: string) =>
+    !/[.;,!?]$/.test(title) && title.split(/\s+/).length <= MAX_HEADING_WORDS;
+  const numbered = text.match(NUMBERED_HEADING);
+  if (numbered) {
+    const parts = numbered[1].split('.').length;
+    const title = numbered[2].replace(/:$/, '');
+    if (!looksLikeHeading(title) || (parts === 1 && !isTitleLike(title))) return null;
+    return { level: parts, number: numbered[1], title };
+  }
+
+  if (ALL_CAPS_HEADING.test(text) && text.replace(/[^A-Z]/g, '').length >= 3) {
+    return { level: 1, number: null, title: text };
+  }
+  if (/^[A-Z0-9]/.test(text) && text.endsWith(':') && looksLikeHeading(text.slice(0, -1))) {
+    return { level: null, number: null, title: text.slice(0, -1) };
+  }
+  return null;
+}
+
+// "4.2 Data Retention", "1. Purpose", "Returns"
+export function headingLabel(heading: Heading): string {
+  if (!heading.number) return heading.title;
+  return `${heading.number.includes('.') ? heading.number : `${heading.number}.`} ${heading.title}`;
+}
+
+export function parseSectionTree(text: string): SectionNode {
+  const root: SectionNode = { heading: null, level: 0, paragraphs: [], children: [] };
+  const open: SectionNode[] = [root];
+  let lastLevel = 0;
+
+  const paragraphs = stripLocationMarkers(text).split(/\n\s*\n/).map(p => p.trim()).filter(p => p.length > 0);
+  for (const paragraph of paragraphs) {
+    const [firstLine, ...rest] = paragraph.split('\n');
+    const heading = parseHeading(firstLine);
+    if (!heading) {
+      open[open.length - 1].paragraphs.push(paragraph);
+      continue;
+    }
+
+    const level = heading.level ?? lastLevel + 1;
+    if (heading.level !== null) lastLevel = heading.level;
+    while (open.length > 1 && open[open.length - 1].level >= level) open.pop();
+    const body = rest.join('\n').trim();
+    const section: SectionNode = { heading, level, paragraphs: body ? [body] : [], children: [] };
+    open[open.length - 1].children.push(section);
+    open.push(section);
+  }
+  return root;
+}
+
+interface FlatSection {
+  node: SectionNode;
+  heading: Heading;
+  parent: FlatSection | null;
+}
+
+function flatten(node: SectionNode, parent: FlatSection | null = null, into: FlatSection[] = []): FlatSection[] {
+  for (const child of node.children) {
+    const flat: FlatSection = { node: child, heading: child.heading!, parent };
+    into.push(flat);
+    flatten(child, flat, into);
+  }
+  return into;
+}
+
+function describe(section: Heading, title: string = section.title): string {
+  return section.number ? `Section ${section.number} '${title}'` : `Section '${title}'`;
+}
+
+// For each section, how many of its subsections have no counterpart in the other version
+function countUnmatchedSubsections(sections: FlatSection[], isUnmatched: (section: FlatSection) => boolean): Map<FlatSection, number> {
+  const counts = new Map<FlatSection, number>();
+  for (const section of sections) {
+    if (!isUnmatched(section)) continue;
+    for (let parent = section.parent; parent; parent = parent.parent) counts.set(parent, (counts.get(parent) || 0) + 1);
+  }
+  return counts;
+}
+
+// Paragraphs found in one body but not the other, counting repeats
+function bodyDifference(previous: string[], current: string[]): { added: number; removed: number } {
+  const counts = new Map<string, number>();
+  for (const paragraph of previous) counts.set(paragraph, (counts.get(paragraph) || 0) + 1);
+  for (const paragraph of current) counts.set(paragraph, (counts.get(paragraph) || 0) - 1);
+  let added = 0;
+  let removed = 0;
+  for (const count of counts.values()) {
+    if (count > 0) removed += count;
+    else added -= count;
+  }
+  return { added, removed };
+}
+
+function paragraphCounts(added: number, removed: number): string {
+  const parts = [];
+  if (added > 0) parts.push(`${added} added`);
+  if (removed > 0) parts.push(`${removed} removed`);
+  return parts.length > 0 ? `paragraphs: ${parts.join(', ')}` : '';
+}
+
+function comparableTitle(title: string): string {
+  return title.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Matches the sections of two versions: by number and title, then by title alone (a renumbered
+// section), then by number or by body (a renamed one). Sections left over were added or removed.
+export function diffSectionTrees(previous: SectionNode, current: SectionNode): SectionChange[] {
+  const before = flatten(previous);
+  const after = flatten(current);
+  const matches = new Map<FlatSection, FlatSection>();
+  const matched = new Set<FlatSection>();
+
+  const pair = (key: (section: FlatSection) => string | null) => {
+    const waiting = new Map<string, FlatSection[]>();
+    for (const section of before) {
+      const value = matches.has(section) ? null : key(section);
+      if (value === null) continue;
+      const list = waiting.get(value) || [];
+      list.push(section);
+      waiting.set(value, list);
+    }
+    for (const section of after) {
+      const value = matched.has(section) ? null : key(section);
+      const candidate = value === null ? undefined : waiting.get(value)?.shift();
+      if (candidate) {
+        matches.set(candidate, section);
+        matched.add(section);
+      }
+    }
+  };
+  const title = (section: FlatSection) => comparableTitle(section.heading.title);
+  pair(section => `${section.heading.number ?? ''} ${title(section)}`);
+  pair(title);
+  // A section with only subsections has no body to compare, so its number has to do
+  pair(section => section.heading.number && section.node.paragraphs.length === 0 ? `${section.heading.number} ${section.node.level}` : null);
+
+  const unmatchedBefore = before.filter(section => !matches.has(section) && section.node.paragraphs.length > 0);
+  const unmatchedAfter = after.filter(section => !matched.has(section) && section.node.paragraphs.length > 0);
+  if (unmatchedBefore.length * unmatchedAfter.length <= RENAME_MAX_COMPARISONS) {
+    const counts = new Map<FlatSection, Map<string, number>>();
+    const countsOf = (section: FlatSection) => {
+      let result = counts.get(section);
+      if (!result) {
+        result = wordCounts(section.node.paragraphs.join('\n'));
+        counts.set(section, result);
+      }
+      return result;
+    };
+    for (const section of unmatchedBefore) {
+      let best: FlatSection | null = null;
+      let bestScore = RENAME_SIMILARITY;
+      for (const candidate of unmatchedAfter) {
+        if (matched.has(candidate)) continue;
+        const score = similarity(countsOf(section), countsOf(candidate));
+        if (score >= bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+      if (best) {
+        matches.set(section, best);
+        matched.add(best);
+      }
+    }
+  }
+
+  const changes: SectionChange[] = [];
+  const sources = new Map([...matches].map(([previousSection, currentSection]) => [currentSection, previousSection]));
+  const addedSubsections = countUnmatchedSubsections(after, section => !sources.has(section));
+  const removedSubsections = countUnmatchedSubsections(before, section => !matches.has(section));
+  for (const section of after) {
+    const source = sources.get(section);
+    if (!source) {
+      // A new section's subsections are reported with it
+      if (section.parent && !sources.has(section.parent)) continue;
+      const subsections = addedSubsections.get(section) || 0;
+      changes.push({
+        type: 'added',
+        number: section.heading.number,
+        title: section.heading.title,
+        level: section.node.level,
+        paragraphsAdded: section.node.paragraphs.length,
+        paragraphsRemoved: 0,
+        subsections: subsections || undefined,
+        description: `${describe(section.heading)} added${subsections ? ` with ${subsections} subsection(s)` : ''}`,
+      });
+      continue;
+    }
+
+    const { added, removed } = bodyDifference(source.node.paragraphs, section.node.paragraphs);
+    // A change of case or spacing alone is not a rename
+    const renamed = comparableTitle(source.heading.title) !== comparableTitle(section.heading.title);
+    if (!renamed && added === 0 && removed === 0) continue;
+    const counts = paragraphCounts(added, removed);
+    changes.push({
+      type: renamed ? 'renamed' : 'modified',
+      number: section.heading.number,
+      title: section.heading.title,
+      oldTitle: renamed ? source.heading.title : undefined,
+      level: section.node.level,
+      paragraphsAdded: added,
+      paragraphsRemoved: removed,
+      description: renamed
+        ? `${describe(section.heading, source.heading.title)} renamed to '${section.heading.title}'${counts ? ` (${counts})` : ''}`
+        : `${describe(section.heading)} changed (${counts})`,
+    });
+  }
+
+  for (const section of before) {
+    if (matches.has(section) || (section.parent && !matches.has(section.parent))) continue;
+    const subsections = removedSubsections.get(section) || 0;
+    changes.push({
+      type: 'removed',
+      number: section.heading.number,
+      title: section.heading.title,
+      level: section.node.level,
+      paragraphsAdded: 0,
+      paragraphsRemoved: section.node.paragraphs.length,
+      subsections: subsections || undefined,
+      description: `${describe(section.heading)} removed${subsections ? ` with ${subsections} subsection(s)` : ''}`,
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildMetadataSnapshot, compareMetadata } from './sharing';
+import { SharingPermission, SourceUser } from '../types';
+
+const owner: SharingPermission = { type: 'user', role: 'owner', emailAddress: 'ana@acme.com' };
+const colleague: SharingPermission = { type: 'user', role: 'writer', emailAddress: 'ben@acme.com' };
+const contractor: SharingPermission = { type: 'user', role: 'reader', emailAddress: 'cy@vendor.io' };
+const acme: SharingPermission = { type: 'domain', role: 'reader', domain: 'acme.com' };
+const link: SharingPermission = { type: 'anyone', role: 'reader', allowFileDiscovery: false };
+const web: SharingPermission = { type: 'anyone', role: 'reader', allowFileDiscovery: true };
+const OWNERS: SourceUser[] = [{ name: 'Ana', email: 'ana@acme.com' }];
+
+const file = (permissions?: SharingPermission[], description?: string) =>
+  ({ id: 'f', name: 'Policy', mimeType: 'text/plain', modifiedTime: '2025-01-01T00:00:00Z', permissions, description });
+const snapshot = (permissions: SharingPermission[], description?: string) => buildMetadataSnapshot(file([owner, ...permissions], description))!;
+
+describe('buildMetadataSnapshot', () => {
+  // [case, grants besides the owner, scope]
+  const cases: Array<[string, SharingPermission[], string]> = [
+    ['no grants', [], 'private'],
+    ['a colleague', [colleague], 'specific_people'],
+    ['a domain', [colleague, acme], 'domain'],
+    ['a link', [acme, link], 'anyone_with_link'],
+    ['a searchable link', [link, web], 'public'],
+  ];
+  for (const [name, permissions, scope] of cases) {
+    it(`reports ${name} as ${scope}`, () => {
+      assert.equal(snapshot(permissions).sharingScope, scope);
+    });
+  }
+
+  it('leaves out the owner and sorts the grants', () => {
+    assert.deepEqual(snapshot([contractor, colleague], 'Leave rules'), {
+      sharingScope: 'specific_people',
+      permissions: [colleague, contractor],
+      description: 'Leave rules',
+    });
+  });
+
+  it('has no snapshot for sources without sharing', () => {
+    assert.equal(buildMetadataSnapshot(file()), null);
+  });
+});
+
+describe('compareMetadata', () => {
+  it('returns null when nothing changed', () => {
+    assert.equal(compareMetadata(snapshot([colleague], 'Rules'), snapshot([colleague], 'Rules'), OWNERS, OWNERS), null);
+  });
+
+  // [case, before, after, severity, summary, widenedExternally]
+  const cases: Array<[string, SharingPermission[], SharingPermission[], string, string, boolean]> = [
+    ['sharing with a colleague', [], [colleague], 'medium', 'sharing changed from private to specific people', false],
+    ['adding a colleague', [colleague], [colleague, { ...colleague, emailAddress: 'dee@acme.com' }], 'low', 'sharing changed', false],
+    ['sharing outside the domain', [colleague], [colleague, contractor], 'high', 'sharing changed', true],
+    ['sharing by link', [acme], [link], 'high', 'sharing changed from everyone in a domain to anyone with the link', true],
+    ['removing a grant', [colleague, contractor], [colleague], 'low', 'sharing changed', false],
+    ['a role change', [colleague], [{ ...colleague, role: 'reader' }], 'low', 'sharing changed', false],
+  ];
+  for (const [name, before, after, severity, summary, widenedExternally] of cases) {
+    it(`rates ${name} as ${severity}`, () => {
+      const change = compareMetadata(snapshot(before), snapshot(after), OWNERS, OWNERS)!;
+      assert.equal(change.severity, severity);
+      assert.equal(change.summary, summary);
+      assert.equal(change.reason.sharing!.widenedExternally, widenedExternally);
+    });
+  }
+
+  it('lists the principals added and removed', () => {
+    const change = compareMetadata(snapshot([contractor]), snapshot([colleague]), OWNERS, OWNERS)!;
+    assert.deepEqual(change.reason.sharing!.addedPrincipals, ['ben@acme.com (writer)']);
+    assert.deepEqual(change.reason.sharing!.removedPrincipals, ['cy@vendor.io (reader)']);
+  });
+
+  it('reports owner and description changes together', () => {
+    const newOwners = [{ name: 'Ben', email: 'ben@acme.com' }];
+    const change = compareMetadata(snapshot([], 'Rules'), snapshot([], 'Leave rules'), OWNERS, newOwners)!;
+    assert.equal(change.severity, 'medium');
+    assert.equal(change.summary, 'owner changed to ben@acme.com; description changed');
+    assert.equal(change.reason.oldDescription, 'Rules');
+    assert.equal(change.reason.newDescription, 'Leave rules');
+    assert.equal(change.reason.sharing, undefined);
+  });
+});
@@ -0,0 +1,123 @@
+import { ChangeReason, ChangeSeverity, MetadataSnapshot, SharingPermission, SharingScope, SourceUser } from '../types';
+import { SourceFile } from './documentSource';
+
+// Narrowest to widest
+const SCOPE_RANK: SharingScope[] = ['private', 'specific_people', 'domain', 'anyone_with_link', 'public'];
+
+const SCOPE_LABELS: Record<SharingScope, string> = {
+  private: 'private',
+  specific_people: 'specific people',
+  domain: 'everyone in a domain',
+  anyone_with_link: 'anyone with the link',
+  public: 'public on the web',
+};
+
+export interface MetadataChange {
+  reason: ChangeReason;
+  severity: ChangeSeverity;
+  summary: string;
+}
+
+export function sharingScopeLabel(scope: SharingScope): string {
+  return SCOPE_LABELS[scope];
+}
+
+function sharingScope(permissions: SharingPermission[]): SharingScope {
+  const anyone = permissions.filter(permission => permission.type === 'anyone');
+  if (anyone.some(permission => permission.allowFileDiscovery)) return 'public';
+  if (anyone.length > 0) return 'anyone_with_link';
+  if (permissions.some(permission => permission.type === 'domain')) return 'domain';
+  return permissions.length > 0 ? 'specific_people' : 'private';
+}
+
+// Sources that report sharing (Drive) give a snapshot; others give null
+export function buildMetadataSnapshot(file: SourceFile): MetadataSnapshot | null {
+  if (!file.permissions) return null;
+  // Owners are tracked separately, so only the grants to others are kept
+  const permissions = file.permissions
+    .filter(permission => permission.role !== 'owner')
+    .sort((a, b) => principal(a).localeCompare(principal(b)));
+  return {
+    sharingScope: sharingScope(permissions),
+    permissions,
+    description: file.description || null,
+  };
+}
+
+function principal(permission: SharingPermission): string {
+  const who = permission.type === 'anyone' ? 'anyone' : permission.emailAddress || permission.domain || permission.type;
+  return `${who} (${permission.role})`;
+}
+
+function emailDomain(email: string | undefined): string | null {
+  const at = email ? email.lastIndexOf('@') : -1;
+  return at >= 0 ? email!.substring(at + 1).toLowerCase() : null;
+}
+
+// A grant is external when it reaches beyond the owners' own domains
+function isExternal(permission: SharingPermission, internalDomains: Set<string>): boolean {
+  if (permission.type === 'anyone') return true;
+  const domain = permission.type === 'domain' ? permission.domain?.toLowerCase() : emailDomain(permission.emailAddress);
+  return !!domain && !internalDomains.has(domain);
+}
+
+function ownerList(owners: SourceUser[]): string {
+  return owners.map(owner => owner.email || owner.name).sort().join(', ') || 'nobody';
+}
+
+// Compares a document's stored sharing, owners and description with the current ones.
+// Returns null when nothing changed.
+export function compareMetadata(
+  previous: MetadataSnapshot,
+  current: MetadataSnapshot,
+  previousOwners: SourceUser[],
+  currentOwners: SourceUser[]
+): MetadataChange | null {
+  const reason: ChangeReason = { metadataChanged: true };
+  const changes: string[] = [];
+  let severity: ChangeSeverity = 'low';
+  const raise = (to: ChangeSeverity) => {
+    if (to === 'high' || (to === 'medium' && severity === 'low')) severity = to;
+  };
+
+  const before = new Set(previous.permissions.map(principal));
+  const after = new Set(current.permissions.map(principal));
+  const added = current.permissions.filter(permission => !before.has(principal(permission)));
+  const removed = previous.permissions.filter(permission => !after.has(principal(permission)));
+
+  if (added.length > 0 || removed.length > 0 || previous.sharingScope !== current.sharingScope) {
+    const internalDomains = new Set(
+      [...previousOwners, ...currentOwners].map(owner => emailDomain(owner.email)).filter((domain): domain is string => !!domain)
+    );
+    const scopeWidened = SCOPE_RANK.indexOf(current.sharingScope) > SCOPE_RANK.indexOf(previous.sharingScope);
+    const widenedExternally = added.some(permission => isExternal(permission, internalDomains));
+
+    reason.sharing = {
+      oldScope: previous.sharingScope,
+      newScope: current.sharingScope,
+      addedPrincipals: added.map(principal),
+      removedPrincipals: removed.map(principal),
+      widenedExternally,
+    };
+    raise(widenedExternally ? 'high' : scopeWidened ? 'medium' : 'low');
+    changes.push(previous.sharingScope !== current.sharingScope
+      ? `sharing changed from ${SCOPE_LABELS[previous.sharingScope]} to ${SCOPE_LABELS[current.sharingScope]}`
+      : 'sharing changed');
+  }
+
+  if (ownerList(previousOwners) !== ownerList(currentOwners)) {
+    reason.oldOwners = previousOwners;
+    reason.newOwners = currentOwners;
+    raise('medium');
+    changes.push(`owner changed to ${ownerList(currentOwners)}`);
+  }
+
+  if (previous.description !== current.description) {
+    reason.oldDescription = previous.description;
+    reason.newDescription = current.description;
+    changes.push('description changed');
+  }
+
+  if (changes.length === 0) return null;
+  return { reason, severity, summary: changes.join('; ') };
+}
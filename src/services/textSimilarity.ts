@@ -0,0 +1,24 @@
+// How alike two passages are, by the words they share. Used to recognise a paragraph that moved
+// and a section that was renamed even when their text was lightly edited.
+
+export function wordCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  return counts;
+}
+
+export function wordTotal(counts: Map<string, number>): number {
+  let total = 0;
+  for (const count of counts.values()) total += count;
+  return total;
+}
+
+// Dice coefficient over the two word counts: 1 for the same words, 0 for none in common
+export function similarity(a: Map<string, number>, b: Map<string, number>): number {
+  let shared = 0;
+  for (const [word, count] of b) shared += Math.min(count, a.get(word) || 0);
+  const total = wordTotal(a) + wordTotal(b);
+  return total === 0 ? 0 : (2 * shared) / total;
+}
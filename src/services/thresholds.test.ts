@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareThresholds } from './thresholds';
+
+describe('compareThresholds', () => {
+  // [case, before, after, description, deadline, tightened]
+  const deadlineCases: Array<[string, string, string, string, boolean, boolean]> = [
+    ['within', 'Requests are answered within 30 days.', 'Requests are answered within 14 days.', 'Deadline shortened from 30 days to 14 days', true, true],
+    ['no later than', 'Submit no later than 5 days after the event.', 'Submit no later than 10 days after the event.', 'Deadline extended from 5 days to 10 days', true, false],
+    ['before', 'Renew it before 2 weeks have passed.', 'Renew it before 10 days have passed.', 'Deadline shortened from 2 weeks to 10 days', true, true],
+    ['by a date', 'Complete the training by 2025-03-01.', 'Complete the training by 2025-02-01.', 'Deadline moved earlier from 2025-03-01 to 2025-02-01', true, true],
+    ['up to', 'Staff may take up to 10 days of leave.', 'Staff may take up to 15 days of leave.', 'Duration increased from 10 days to 15 days', false, false],
+    ['at most', 'Logs are kept for at most 90 days.', 'Logs are kept for at most 30 days.', 'Duration decreased from 90 days to 30 days', false, false],
+    ['no more than', 'Carry over no more than 5 days.', 'Carry over no more than 3 days.', 'Duration decreased from 5 days to 3 days', false, false],
+    ['maximum of', 'Claims cover a maximum of 30 days.', 'Claims cover a maximum of 60 days.', 'Duration increased from 30 days to 60 days', false, false],
+  ];
+  for (const [name, before, after, description, deadline, tightened] of deadlineCases) {
+    it(`reports "${name}" wording as ${deadline ? 'a deadline' : 'an allowance'}`, () => {
+      const [change] = compareThresholds(before, after, null);
+      assert.equal(change.description, description);
+      assert.equal(change.deadline, deadline);
+      assert.equal(change.tightened, tightened);
+    });
+  }
+
+  // [case, before, after, descriptions]
+  const countCases: Array<[string, string, string, string[]]> = [
+    ['a sentence-initial count', '3 approvers are required.', '2 approvers are required.', ['Number of approvers decreased from 3 approvers to 2 approvers']],
+    ['a sentence-initial number word', 'Two reviewers sign off.', 'Three reviewers sign off.', ['Number of reviewers increased from Two reviewers to Three reviewers']],
+    ['a count mid-sentence', 'Each request needs 2 approvers.', 'Each request needs 3 approvers.', ['Number of approvers increased from 2 approvers to 3 approvers']],
+    ['a heading number', '2 Scope', '3 Scope', []],
+    ['a step number', 'Step 3 requires approval.', 'Step 4 requires approval.', []],
+  ];
+  for (const [name, before, after, descriptions] of countCases) {
+    it(`compares ${name}`, () => {
+      assert.deepEqual(compareThresholds(before, after, null).map(change => change.description), descriptions);
+    });
+  }
+
+  it('compares durations in different units', () => {
+    const [change] = compareThresholds('Reply within 2 weeks.', 'Reply within 10 days.', 'Support');
+    assert.equal(change.oldAmount, 14);
+    assert.equal(change.newAmount, 10);
+    assert.equal(change.unit, 'days');
+    assert.equal(change.location, 'Support');
+  });
+
+  it('reports a deadline moving from hours to days', () => {
+    const [change] = compareThresholds('Respond within 24 hours.', 'Respond within 2 days.', null);
+    assert.equal(change.description, 'Deadline extended from 24 hours to 2 days');
+    assert.equal(change.oldAmount, 24);
+    assert.equal(change.newAmount, 48);
+    assert.equal(change.unit, 'hours');
+    assert.equal(change.tightened, false);
+  });
+
+  it('treats equal durations in different units as unchanged', () => {
+    assert.deepEqual(compareThresholds('Respond within 48 hours.', 'Respond within 2 days.', null), []);
+  });
+
+  it('keeps business days apart from calendar days', () => {
+    assert.deepEqual(compareThresholds('Reply within 5 business days.', 'Reply within 7 days.', null), []);
+  });
+
+  it('ignores numbers found in both versions', () => {
+    assert.deepEqual(compareThresholds('Pay $500 within 30 days.', 'Within 30 days, pay $500.', null), []);
+  });
+});
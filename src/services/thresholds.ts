@@ -0,0 +1,204 @@
+import { DATE_PATTERN } from './contentNormalizer';
+
+// The numbers a policy turns on: "within 30 days", "$500", "15%", "by March 1, 2025",
+// "2 approvers". Paired before/after paragraphs are compared number by number, so a change from
+// 30 days to 14 days is reported as that rather than as reworded text.
+
+export type QuantityKind = 'duration' | 'money' | 'percentage' | 'date' | 'count';
+
+export interface ThresholdChange {
+  kind: QuantityKind;
+  // As written, e.g. "30 days" and "2 weeks"
+  oldValue: string;
+  newValue: string;
+  // In `unit`; dates are milliseconds since the epoch
+  oldAmount: number;
+  newAmount: number;
+  unit: string;
+  direction: 'increased' | 'decreased' | 'earlier' | 'later';
+  // The number is a time limit ("within 30 days", "by March 1")
+  deadline: boolean;
+  // A deadline that now leaves less time
+  tightened: boolean;
+  location: string | null;
+  description: string;
+}
+
+interface Quantity {
+  kind: QuantityKind;
+  text: string;
+  amount: number;
+  unit: string;
+  // Durations convert to a base unit so "2 weeks" compares with "14 days"
+  base: string;
+  baseAmount: number;
+  deadline: boolean;
+  start: number;
+  end: number;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, sixty: 60, ninety: 90,
+};
+const NUMBER = `(?:\\d[\\d,]*(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join('|')})`;
+
+const MONEY_PATTERN = new RegExp(
+  `([$€£])\\s?(\\d[\\d,]*(?:\\.\\d+)?)(?:\\s?(k|m|thousand|million)\\b)?|\\b(\\d[\\d,]*(?:\\.\\d+)?)\\s?(usd|eur|gbp|dollars?|euros?|pounds?)\\b`,
+  'gi'
+);
+const PERCENTAGE_PATTERN = /\b(\d+(?:\.\d+)?)\s?(?:%|percent\b|per cent\b)/gi;
+const DURATION_PATTERN = new RegExp(
+  `\\(?\\b(${NUMBER})\\)?[\\s-]?(?:(business|working|calendar)[\\s-])?(minute|hour|day|week|month|year)s?\\b`,
+  'gi'
+);
+const COUNT_PATTERN = new RegExp(`\\b(${NUMBER})\\s+([a-z][a-z-]{2,})\\b`, 'gi');
+
+const CURRENCIES: Record<string, string> = {
+  usd: '$', dollar: '$', dollars: '$', eur: '€', euro: '€', euros: '€', gbp: '£', pound: '£', pounds: '£',
+};
+const MULTIPLIERS: Record<string, number> = { k: 1e3, thousand: 1e3, m: 1e6, million: 1e6 };
+// Calendar durations in hours, so "24 hours" compares with "2 days" and "2 weeks" with "10 days"
+const DURATION_BASES: Record<string, [string, number]> = {
+  minute: ['hours', 1 / 60], hour: ['hours', 1], day: ['hours', 24], week: ['hours', 168], month: ['hours', 720], year: ['hours', 8760],
+};
+
+// A number after these words is a time limit; up to two words may come between ("within the
+// next 30 days", "within thirty (30) days"). "Up to", "at most" and "no more than" are allowances,
+// not deadlines: "up to 10 days of leave" growing is an increase, not a later deadline.
+const DEADLINE_CONTEXT = /\b(?:within|no later than|not later than|before|by|deadline(?: of| is)?|due(?: by| in| within)?|until|effective)(?:\s+[\w-]+){0,2}\s*$/i;
+// "Step 3 requires" and "Section 4 lists" are not counts of anything
+const NOT_COUNTED_AFTER = /\b(?:step|section|item|page|chapter|article|clause|rule|part|version|no\.?|number|level|tier|phase|appendix|schedule)\s*$/i;
+const NOT_COUNTABLE = new Set([
+  'and', 'the', 'for', 'per', 'are', 'was', 'were', 'has', 'have', 'had', 'but', 'not', 'all', 'any',
+  'more', 'less', 'than', 'times', 'percent', 'cent', 'out', 'from', 'with', 'who', 'that', 'which',
+]);
+
+function parseNumber(text: string): number {
+  const word = NUMBER_WORDS[text.toLowerCase()];
+  return word ?? parseFloat(text.replace(/,/g, ''));
+}
+
+function singular(noun: string): string {
+  const lower = noun.toLowerCase();
+  if (lower.endsWith('ies')) return lower.slice(0, -3) + 'y';
+  if (lower.endsWith('ses') || lower.endsWith('xes')) return lower.slice(0, -2);
+  return lower.endsWith('s') && !lower.endsWith('ss') ? lower.slice(0, -1) : lower;
+}
+
+function plural(noun: string): string {
+  if (/[^aeiou]y$/.test(noun)) return noun.slice(0, -1) + 'ies';
+  return /(?:s|x|ch|sh)$/.test(noun) ? `${noun}es` : `${noun}s`;
+}
+
+// Hours in a calendar unit such as "days" or "calendar weeks"
+function hoursPer(unit: string): number {
+  return DURATION_BASES[unit.split(' ').pop()!.replace(/s$/, '')][1];
+}
+
+function extractQuantities(text: string): Quantity[] {
+  const quantities: Quantity[] = [];
+  const taken = (start: number, end: number) => quantities.some(q => start < q.end && end > q.start);
+  const isDeadline = (start: number) => DEADLINE_CONTEXT.test(text.substring(Math.max(0, start - 40), start));
+  const add = (match: RegExpExecArray, quantity: Omit<Quantity, 'text' | 'start' | 'end' | 'deadline'>, deadline = false) => {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (taken(start, end) || !Number.isFinite(quantity.amount)) return;
+    quantities.push({ ...quantity, text: match[0].replace(/[()]/g, '').trim(), start, end, deadline });
+  };
+
+  // Dates first: "1 March 2024" is not a count of marches
+  for (const match of text.matchAll(new RegExp(DATE_PATTERN.source, 'gi'))) {
+    const amount = Date.parse(match[0].replace(/(\d)(?:st|nd|rd|th)\b/i, '$1'));
+    add(match, { kind: 'date', amount, unit: 'date', base: 'date', baseAmount: amount }, isDeadline(match.index));
+  }
+  for (const match of text.matchAll(MONEY_PATTERN)) {
+    const unit = match[1] || CURRENCIES[match[5].toLowerCase()];
+    const amount = parseNumber(match[2] || match[4]) * (match[3] ? MULTIPLIERS[match[3].toLowerCase()] : 1);
+    add(match, { kind: 'money', amount, unit, base: unit, baseAmount: amount });
+  }
+  for (const match of text.matchAll(PERCENTAGE_PATTERN)) {
+    const amount = parseFloat(match[1]);
+    add(match, { kind: 'percentage', amount, unit: '%', base: '%', baseAmount: amount });
+  }
+  for (const match of text.matchAll(DURATION_PATTERN)) {
+    const amount = parseNumber(match[1]);
+    const qualifier = match[2]?.toLowerCase();
+    const unitName = match[3].toLowerCase();
+    // Business days do not convert to calendar days
+    const [base, factor] = qualifier === 'business' || qualifier === 'working'
+      ? [`${qualifier} ${unitName}s`, 1]
+      : DURATION_BASES[unitName];
+    const unit = qualifier ? `${qualifier} ${unitName}s` : `${unitName}s`;
+    add(match, { kind: 'duration', amount, unit, base, baseAmount: amount * factor }, isDeadline(match.index));
+  }
+  for (const match of text.matchAll(COUNT_PATTERN)) {
+    const noun = singular(match[2]);
+    if (NOT_COUNTABLE.has(noun) || NOT_COUNTED_AFTER.test(text.substring(0, match.index))) continue;
+    // A paragraph may open with a count ("3 approvers are required"), but "2 Scope" numbers a heading
+    if (match.index === 0 && /^\d/.test(match[1]) && /^[A-Z]/.test(match[2])) continue;
+    // Counts are whole numbers; "4.2 Data" is a heading number
+    const amount = parseNumber(match[1]);
+    if (!Number.isInteger(amount)) continue;
+    add(match, { kind: 'count', amount, unit: noun, base: noun, baseAmount: amount });
+  }
+  return quantities.sort((a, b) => a.start - b.start);
+}
+
+function describeChange(kind: QuantityKind, unit: string, deadline: boolean, direction: ThresholdChange['direction'], oldValue: string, newValue: string): string {
+  const values = `from ${oldValue} to ${newValue}`;
+  if (kind === 'date') return `${deadline ? 'Deadline' : 'Date'} moved ${direction} ${values}`;
+  if (kind === 'duration' && deadline) return `Deadline ${direction === 'decreased' ? 'shortened' : 'extended'} ${values}`;
+  const what = kind === 'money' ? 'Amount' : kind === 'percentage' ? 'Percentage' : kind === 'duration' ? 'Duration' : `Number of ${plural(unit)}`;
+  return `${what} ${direction} ${values}`;
+}
+
+// Compares the numbers in two versions of a paragraph. Numbers that appear in both are
+// unchanged; the rest are paired in order by kind and unit.
+export function compareThresholds(before: string, after: string, location: string | null): ThresholdChange[] {
+  const previous = extractQuantities(before);
+  const current = extractQuantities(after);
+  const unchanged = (quantity: Quantity, others: Quantity[]) =>
+    others.findIndex(other => other.base === quantity.base && other.baseAmount === quantity.baseAmount);
+
+  const remainingCurrent = [...current];
+  const remainingPrevious = previous.filter(quantity => {
+    const index = unchanged(quantity, remainingCurrent);
+    if (index === -1) return true;
+    remainingCurrent.splice(index, 1);
+    return false;
+  });
+
+  const changes: ThresholdChange[] = [];
+  for (const old of remainingPrevious) {
+    const index = remainingCurrent.findIndex(quantity => quantity.kind === old.kind && quantity.base === old.base);
+    if (index === -1) continue;
+    const [replacement] = remainingCurrent.splice(index, 1);
+    const increased = replacement.baseAmount > old.baseAmount;
+    const direction = old.kind === 'date' ? (increased ? 'later' : 'earlier') : (increased ? 'increased' : 'decreased');
+    // Amounts are reported in the unit both versions use; durations in different units are
+    // reported in the shorter of the two ("24 hours" to "2 days" is 24 to 48 hours)
+    const sameUnit = old.unit === replacement.unit;
+    const unit = sameUnit ? old.unit
+      : old.base === 'hours' ? (hoursPer(old.unit) <= hoursPer(replacement.unit) ? old.unit : replacement.unit)
+      : old.base;
+    const amountOf = (quantity: Quantity) => sameUnit ? quantity.amount
+      : old.base === 'hours' ? quantity.baseAmount / hoursPer(unit)
+      : quantity.baseAmount;
+    const deadline = old.deadline || replacement.deadline;
+    changes.push({
+      kind: old.kind,
+      oldValue: old.text,
+      newValue: replacement.text,
+      oldAmount: amountOf(old),
+      newAmount: amountOf(replacement),
+      unit,
+      direction,
+      deadline,
+      tightened: deadline && !increased,
+      location,
+      description: describeChange(old.kind, old.unit, deadline, direction, old.text, replacement.text),
+    });
+  }
+  return changes;
+}
@@ -1,15 +1,143 @@
 export interface IngestionRun {
   id: string;
+  folderId?: string;
   createdAt: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  // completed_with_errors: the run finished but some files could not be fetched or extracted;
+  // interrupted: the server stopped mid-run
+  status: 'pending' | 'in_progress' | 'completed' | 'completed_with_errors' | 'failed' | 'interrupted';
   documentsProcessed: number;
   changesDetected: number;
+  // Whether the run listed the whole root or only what the source reported as changed
+  syncMode?: SyncMode;
+  // Files whose content was downloaded or exported, and files skipped because the source's
+  // metadata showed they had not changed
+  filesFetched?: number;
+  filesSkipped?: number;
   error?: string;
 }
 
+export type IngestionItemOutcome =
+  | 'new'
+  | 'unchanged'
+  | 'metadata'
+  | 'modified'
+  | 'renamed'
+  | 'moved'
+  | 'deleted'
+  | 'skipped-unsupported'
+  | 'ignored'
+  | 'extraction-failed'
+  | 'api-error';
+
+// What a run did with one file (one per commit for sources with history)
+export interface IngestionRunItem {
+  id: string;
+  runId: string;
+  sourceId: string;
+  fileName: string;
+  documentId?: string;
+  outcome: IngestionItemOutcome;
+  reason?: string;
+  createdAt: string;
+}
+
+export type SourceType = 'google_drive' | 'local' | 'git';
+
+export type SyncMode = 'full' | 'incremental';
+
+// Text normalizations applied before hashing (src/services/contentNormalizer.ts)
+export type NormalizationStep = 'bom' | 'unicode' | 'quotes' | 'whitespace' | 'dates';
+
+// Which of a folder's files are tracked
+export interface FileRules {
+  // Globs without a slash match a file name, others the path from the root; a trailing slash
+  // (or /**) matches a whole folder. When set, only files matching at least one are tracked.
+  include?: string[];
+  exclude?: string[];
+  // MIME types may end in *
+  includeMimeTypes?: string[];
+  excludeMimeTypes?: string[];
+  maxSizeBytes?: number | null;
+}
+
+// A folder (or directory, or repository) watched on its own schedule. Documents, runs and
+// baselines are scoped to it.
+export interface MonitoredFolder {
+  id: string;
+  name: string;
+  sourceType: SourceType;
+  rootId: string;
+  owner: string | null;
+  notificationEmails: string[];
+  // Changes below this severity are not notified
+  notifyMinSeverity: ChangeSeverity;
+  scheduleEnabled: boolean;
+  intervalMinutes: number;
+  fileRules: FileRules;
+  // Normalization steps for this folder's content; null uses CONTENT_NORMALIZATION
+  normalization: NormalizationStep[] | null;
+  lastRun: string | null;
+  nextRun: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One changes.watch channel covers the whole Drive of the connected account
+export interface DriveWatchChannel {
+  id: string;
+  resourceId: string;
+  // Shared secret Drive echoes in X-Goog-Channel-Token
+  token: string;
+  // Where the next notification's changes are read from
+  pageToken: string;
+  expiration: string;
+  createdAt: string;
+}
+
+export interface SyncCursor {
+  sourceType: SourceType;
+  rootId: string;
+  cursor: string;
+  lastFullSyncAt: string | null;
+  updatedAt: string;
+}
+
+// A person as reported by a source: a Drive user or a git commit author
+export interface SourceUser {
+  name: string;
+  email?: string;
+}
+
+// How far a file is shared beyond its owners, narrowest first
+export type SharingScope = 'private' | 'specific_people' | 'domain' | 'anyone_with_link' | 'public';
+
+export interface SharingPermission {
+  type: 'user' | 'group' | 'domain' | 'anyone';
+  role: string;
+  emailAddress?: string;
+  domain?: string;
+  // For `anyone`: whether the file can be found by search rather than only by its link
+  allowFileDiscovery?: boolean;
+}
+
+// Sharing and description of a file at the last listing; owners are kept in Document.owners
+export interface MetadataSnapshot {
+  sharingScope: SharingScope;
+  permissions: SharingPermission[];
+  description: string | null;
+}
+
 export interface Document {
   id: string;
-  googleDriveId: string;
+  folderId?: string;
+  sourceId: string;
+  sourceType: SourceType;
+  sourceRoot?: string;
+  sourceRevision?: string;
+  // The source's own change counter at the last fetch (Drive `version`)
+  sourceVersion?: string;
+  // Parent folder path relative to the source root ('' for files directly in the root)
+  folderPath?: string;
   fileName: string;
   mimeType: string;
   lastModified: string;
@@ -17,14 +145,32 @@ export interface Document {
   currentHash: string;
   isDeleted?: boolean;
   deletedAt?: string;
+  // Set with isDeleted when the file still exists but was moved outside the root
+  movedOutOfScope?: boolean;
+  // JSON array of SourceUser: the file's owners at the last fetch (Drive only)
+  owners?: string;
+  // JSON MetadataSnapshot from the last listing (Drive only)
+  metadataSnapshot?: string;
 }
 
+// Fields written by updateDocument; a restored document clears deletedAt with null
+export type DocumentUpdate = Partial<Omit<Document, 'id' | 'deletedAt'>> & {
+  deletedAt?: string | null;
+};
+
 export interface DocumentVersion {
   id: string;
   documentId: string;
   hash: string;
   content: string;
+  // For versions backfilled from history, the time of the revision rather than of ingestion
   createdAt: string;
+  historical?: boolean;
+  // Who made the change this version records, when the source says
+  modifiedBy?: string;
+  modifiedByEmail?: string;
+  // JSON array of the normalization steps `hash` was computed with; the content is stored raw
+  normalizations?: string;
 }
 
 export type ChangeSeverity = 'low' | 'medium' | 'high';
@@ -38,14 +184,65 @@ export interface ChangeReason {
   newName?: string;
   lastSeenAt?: string;
   lastKnownName?: string;
+  oldPath?: string;
+  newPath?: string;
+  movedOutOfScope?: boolean;
+  movedIntoScope?: boolean;
   baselineDocCount?: number;
+  // Metadata changes: only the parts that changed are set
+  sharing?: {
+    oldScope: SharingScope;
+    newScope: SharingScope;
+    addedPrincipals: string[];
+    removedPrincipals: string[];
+    // A grant was added for someone outside the owners' domains, or for anyone
+    widenedExternally: boolean;
+  };
+  oldOwners?: SourceUser[];
+  newOwners?: SourceUser[];
+  oldDescription?: string | null;
+  newDescription?: string | null;
+  // The new version has the same paragraphs as the last one, only in a different order
+  reordered?: boolean;
+  // Who made the change, when the source says
+  modifiedBy?: SourceUser;
+  // Recorded from the source's history by a baseline backfill, i.e. before monitoring started
+  historical?: boolean;
+  // The Drive revision a historical change was read from
+  revision?: {
+    id: string;
+    author: string;
+    authorEmail?: string;
+    revisedAt: string;
+  };
+  commit?: {
+    sha: string;
+    author: string;
+    authorEmail?: string;
+    message: string;
+    committedAt: string;
+  };
 }
 
+// One run of a word-level redline; text keeps the whitespace before each word
+export interface RedlineSpan {
+  type: 'same' | 'deleted' | 'inserted';
+  text: string;
+}
+
+// What a requirement sentence asks: must do, must not do, may do or should do
+export type Modality = 'obligation' | 'prohibition' | 'permission' | 'recommendation';
+
 export interface ChangeItem {
-  change_type: 'added' | 'removed' | 'modified';
+  // 'modality' items describe one sentence whose modality changed, e.g. "should" to "must"
+  change_type: 'added' | 'removed' | 'modified' | 'moved' | 'modality';
   location: string | null;
   before_excerpt: string | null;
   after_excerpt: string | null;
+  redline?: RedlineSpan[];
+  // High for risky language, a tightened deadline or a new obligation or prohibition, low for
+  // text that only moved
+  severity?: ChangeSeverity;
   plain_english_change: string;
   why_it_matters: string;
   recommended_action: string;
@@ -60,6 +257,9 @@ export interface SOPRequirement {
   after_excerpt: string;
   operational_impact: string;
   category: 'step' | 'obligation' | 'system' | 'training' | 'storage' | 'responsibility';
+  modality?: Modality | null;
+  // Set when a reworded requirement changed modality
+  previous_modality?: Modality | null;
   confidence: 'low' | 'medium' | 'high';
 }
 
@@ -69,6 +269,12 @@ export interface ExplanationBullets {
   recommended_actions: string[];
   change_items?: ChangeItem[];
   new_or_changed_requirements?: SOPRequirement[];
+  // "Section 4.2 'Data Retention' added", from the section-level diff
+  section_changes?: string[];
+  // "Deadline shortened from 30 days to 14 days"
+  threshold_changes?: string[];
+  // "\"should\" became \"must\": a recommendation is now an obligation"
+  modality_changes?: string[];
 }
 
 export interface ExplanationMeta {
@@ -79,6 +285,8 @@ export interface ExplanationMeta {
   deterministic?: boolean;
   highRiskDetected?: boolean;
   highRiskPhrases?: string[];
+  // A time limit in the document now leaves less time
+  deadlineTightened?: boolean;
   skippedAI?: boolean;
   documentType?: 'policy' | 'procedural' | 'general';
 }
@@ -88,7 +296,7 @@ export interface ChangeRecord {
   documentId?: string;
   previousVersionId?: string;
   newVersionId?: string;
-  changeType: 'created' | 'modified' | 'deleted' | 'renamed' | 'baseline';
+  changeType: 'created' | 'modified' | 'deleted' | 'renamed' | 'moved' | 'metadata' | 'baseline';
   detectedAt: string;
   summary?: string;
   reason?: string;